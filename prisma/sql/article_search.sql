@@ -0,0 +1,22 @@
+-- Full-text search for articles.
+-- Keeps "Article"."searchVector" in sync with title, excerpt and content.
+-- Apply after `prisma db push` with: npm run db:search-index
+
+CREATE OR REPLACE FUNCTION article_search_vector_update() RETURNS trigger AS $$
+BEGIN
+  NEW."searchVector" :=
+    setweight(to_tsvector('english', coalesce(NEW."title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(NEW."excerpt", '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(NEW."content", '')), 'C');
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS article_search_vector_trigger ON "Article";
+
+CREATE TRIGGER article_search_vector_trigger
+  BEFORE INSERT OR UPDATE OF "title", "excerpt", "content" ON "Article"
+  FOR EACH ROW EXECUTE FUNCTION article_search_vector_update();
+
+-- Backfill rows created before the trigger existed
+UPDATE "Article" SET "title" = "title" WHERE "searchVector" IS NULL;
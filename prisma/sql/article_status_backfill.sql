@@ -0,0 +1,7 @@
+-- One-off backfill for the editorial status column.
+-- Articles created before the review workflow were published directly.
+-- Apply after `prisma db push` with: npm run db:backfill-status
+
+UPDATE "Article"
+SET "status" = CASE WHEN "published" THEN 'published' ELSE 'drafted' END
+WHERE "status" = 'drafted';
@@ -0,0 +1,24 @@
+-- At most one unfinished job per dedupe key.
+-- enqueueJob checks for an unfinished job before inserting, but two runs enqueuing the
+-- same key at once can both pass the check; this index makes the second insert fail.
+-- Prisma cannot declare partial indexes and db push drops indexes it does not know,
+-- so apply after every `prisma db push` with: npm run db:job-dedupe-index
+
+-- Duplicates queued before the index existed would block its creation: keep the oldest
+UPDATE "Job" j
+SET "status" = 'failed',
+    "lockedUntil" = NULL,
+    "lastError" = 'Duplicate of an unfinished job with the same dedupe key',
+    "completedAt" = NOW()
+WHERE j."dedupeKey" IS NOT NULL
+  AND j."status" IN ('pending', 'running')
+  AND EXISTS (
+    SELECT 1 FROM "Job" o
+    WHERE o."dedupeKey" = j."dedupeKey"
+      AND o."status" IN ('pending', 'running')
+      AND (o."createdAt", o."id") < (j."createdAt", j."id")
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS "Job_dedupeKey_unfinished_key"
+  ON "Job" ("dedupeKey")
+  WHERE "dedupeKey" IS NOT NULL AND "status" IN ('pending', 'running');
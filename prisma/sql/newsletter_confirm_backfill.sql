@@ -0,0 +1,8 @@
+-- One-off backfill for newsletter double opt-in.
+-- Subscribers who joined before confirmation emails existed stay on the list.
+-- Apply after `prisma db push` with: npm run db:backfill-newsletter
+
+UPDATE "Newsletter"
+SET "confirmedAt" = "createdAt"
+WHERE "confirmedAt" IS NULL
+  AND "confirmToken" IS NULL;
@@ -0,0 +1,359 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Edit2, Trash2, ExternalLink, Star } from 'lucide-react';
+import styles from './Admin.module.css';
+
+interface Category {
+    id: string;
+    name: string;
+    slug: string;
+}
+
+interface ArticleRow {
+    id: string;
+    title: string;
+    slug: string;
+    status: string;
+    published: boolean;
+    featured: boolean;
+    aiRephrased: boolean;
+    sourceName: string | null;
+    createdAt: string;
+    category: Category;
+}
+
+interface ArticleDraft {
+    id: string;
+    title: string;
+    slug: string;
+    excerpt: string | null;
+    content: string;
+    image: string | null;
+    categoryId: string;
+    featured: boolean;
+}
+
+const EMPTY_FILTERS = { q: '', source: '', category: '', aiRephrased: '', status: '', from: '', to: '' };
+
+export default function ArticlesTab() {
+    const [articles, setArticles] = useState<ArticleRow[]>([]);
+    const [categories, setCategories] = useState<Category[]>([]);
+    const [sourceNames, setSourceNames] = useState<string[]>([]);
+    const [filters, setFilters] = useState(EMPTY_FILTERS);
+    const [page, setPage] = useState(1);
+    const [totalPages, setTotalPages] = useState(1);
+    const [total, setTotal] = useState(0);
+    const [selected, setSelected] = useState<string[]>([]);
+    const [bulkCategory, setBulkCategory] = useState('');
+    const [editing, setEditing] = useState<ArticleDraft | null>(null);
+    const [error, setError] = useState('');
+
+    // Bumped after every change to reload the current page
+    const [refreshKey, setRefreshKey] = useState(0);
+    const fetchArticles = () => setRefreshKey(k => k + 1);
+
+    useEffect(() => {
+        async function loadArticles() {
+            const params = new URLSearchParams({ page: String(page) });
+            Object.entries(filters).forEach(([key, value]) => {
+                if (value) params.set(key, value);
+            });
+
+            try {
+                const res = await fetch(`/api/admin/articles?${params.toString()}`);
+                const data = await res.json();
+                if (res.ok) {
+                    setArticles(data.articles);
+                    setCategories(data.categories);
+                    setSourceNames(data.sourceNames);
+                    setTotal(data.pagination.total);
+                    setTotalPages(Math.max(data.pagination.totalPages, 1));
+                    setSelected([]);
+                }
+            } catch (err) {
+                console.error('Failed to fetch articles:', err);
+            }
+        }
+        loadArticles();
+    }, [filters, page, refreshKey]);
+
+    const updateFilter = (key: keyof typeof EMPTY_FILTERS, value: string) => {
+        setFilters(prev => ({ ...prev, [key]: value }));
+        setPage(1);
+    };
+
+    const toggleSelected = (id: string) => {
+        setSelected(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+    };
+
+    const handleBulk = async (action: string) => {
+        if (selected.length === 0) return;
+        if (action === 'delete' && !confirm(`Delete ${selected.length} article(s)? This cannot be undone.`)) return;
+
+        try {
+            const res = await fetch('/api/admin/articles', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ ids: selected, action, categoryId: bulkCategory || undefined }),
+            });
+            const data = await res.json();
+            if (res.ok) {
+                if (data.skipped > 0) alert(data.message);
+                fetchArticles();
+            }
+        } catch (err) {
+            console.error('Bulk action failed:', err);
+        }
+    };
+
+    const openEditor = async (id: string) => {
+        setError('');
+        try {
+            const res = await fetch(`/api/admin/articles/${id}`);
+            const data = await res.json();
+            if (res.ok) {
+                setEditing({
+                    id: data.id,
+                    title: data.title,
+                    slug: data.slug,
+                    excerpt: data.excerpt,
+                    content: data.content,
+                    image: data.image,
+                    categoryId: data.categoryId,
+                    featured: data.featured,
+                });
+            }
+        } catch (err) {
+            console.error('Failed to load article:', err);
+        }
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!editing) return;
+
+        try {
+            const res = await fetch(`/api/admin/articles/${editing.id}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(editing),
+            });
+            const data = await res.json();
+            if (res.ok) {
+                setEditing(null);
+                fetchArticles();
+            } else {
+                setError(data.message || 'Failed to save article');
+            }
+        } catch (err) {
+            console.error('Failed to save article:', err);
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        if (!confirm('Are you sure you want to delete this article?')) return;
+        try {
+            const res = await fetch(`/api/admin/articles/${id}`, { method: 'DELETE' });
+            if (res.ok) fetchArticles();
+        } catch (err) {
+            console.error('Failed to delete article:', err);
+        }
+    };
+
+    return (
+        <div className={styles.sourcesContainer}>
+            <div className={styles.sectionHeader}>
+                <h2>Manage Articles ({total})</h2>
+            </div>
+
+            <div className={styles.filterBar}>
+                <input
+                    type="text"
+                    placeholder="Search titles"
+                    value={filters.q}
+                    onChange={e => updateFilter('q', e.target.value)}
+                />
+                <select value={filters.source} onChange={e => updateFilter('source', e.target.value)}>
+                    <option value="">All sources</option>
+                    {sourceNames.map(name => <option key={name} value={name}>{name}</option>)}
+                </select>
+                <select value={filters.category} onChange={e => updateFilter('category', e.target.value)}>
+                    <option value="">All categories</option>
+                    {categories.map(c => <option key={c.id} value={c.slug}>{c.name}</option>)}
+                </select>
+                <select value={filters.aiRephrased} onChange={e => updateFilter('aiRephrased', e.target.value)}>
+                    <option value="">AI + manual</option>
+                    <option value="true">AI rephrased</option>
+                    <option value="false">Not rephrased</option>
+                </select>
+                <select value={filters.status} onChange={e => updateFilter('status', e.target.value)}>
+                    <option value="">Any status</option>
+                    <option value="published">Published</option>
+                    <option value="in_review">In review</option>
+                    <option value="approved">Approved</option>
+                    <option value="drafted">Drafted</option>
+                    <option value="rejected">Rejected</option>
+                </select>
+                <input type="date" value={filters.from} onChange={e => updateFilter('from', e.target.value)} aria-label="From date" />
+                <input type="date" value={filters.to} onChange={e => updateFilter('to', e.target.value)} aria-label="To date" />
+            </div>
+
+            {selected.length > 0 && (
+                <div className={styles.bulkBar}>
+                    <span>{selected.length} selected</span>
+                    <button onClick={() => handleBulk('publish')}>Publish</button>
+                    <button onClick={() => handleBulk('unpublish')}>Unpublish</button>
+                    <button onClick={() => handleBulk('feature')}>Feature</button>
+                    <button onClick={() => handleBulk('unfeature')}>Unfeature</button>
+                    <select value={bulkCategory} onChange={e => setBulkCategory(e.target.value)}>
+                        <option value="">Move to category...</option>
+                        {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                    </select>
+                    <button onClick={() => handleBulk('categorize')} disabled={!bulkCategory}>Apply</button>
+                    <button onClick={() => handleBulk('delete')} style={{ color: '#ef4444' }}>Delete</button>
+                </div>
+            )}
+
+            {editing && (
+                <div className={styles.modalOverlay}>
+                    <div className={`${styles.modal} ${styles.modalWide}`}>
+                        <h3>Edit Article</h3>
+                        <form onSubmit={handleSave} className={styles.sourceForm}>
+                            <div className={styles.formGroup}>
+                                <label>Title</label>
+                                <input
+                                    type="text"
+                                    required
+                                    value={editing.title}
+                                    onChange={e => setEditing({ ...editing, title: e.target.value })}
+                                />
+                            </div>
+                            <div className={styles.formGroup}>
+                                <label>Slug</label>
+                                <input
+                                    type="text"
+                                    required
+                                    value={editing.slug}
+                                    onChange={e => setEditing({ ...editing, slug: e.target.value })}
+                                />
+                            </div>
+                            <div className={styles.formGroup}>
+                                <label>Category</label>
+                                <select
+                                    value={editing.categoryId}
+                                    onChange={e => setEditing({ ...editing, categoryId: e.target.value })}
+                                >
+                                    {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                                </select>
+                            </div>
+                            <div className={styles.formGroup}>
+                                <label>Image URL (downloaded and resized on save)</label>
+                                <input
+                                    type="text"
+                                    value={editing.image || ''}
+                                    onChange={e => setEditing({ ...editing, image: e.target.value })}
+                                />
+                            </div>
+                            <div className={styles.formGroup}>
+                                <label>Excerpt</label>
+                                <textarea
+                                    rows={3}
+                                    value={editing.excerpt || ''}
+                                    onChange={e => setEditing({ ...editing, excerpt: e.target.value })}
+                                />
+                            </div>
+                            <div className={styles.formGroup}>
+                                <label>Content</label>
+                                <textarea
+                                    rows={12}
+                                    required
+                                    value={editing.content}
+                                    onChange={e => setEditing({ ...editing, content: e.target.value })}
+                                />
+                            </div>
+                            <label className={styles.checkboxLabel}>
+                                <input
+                                    type="checkbox"
+                                    checked={editing.featured}
+                                    onChange={e => setEditing({ ...editing, featured: e.target.checked })}
+                                />
+                                Featured
+                            </label>
+                            {error && <p className={styles.formError}>{error}</p>}
+                            <div className={styles.formActions}>
+                                <button type="submit" className={styles.saveBtn}>Save Article</button>
+                                <button type="button" className={styles.cancelBtn} onClick={() => setEditing(null)}>Cancel</button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+
+            <div className={styles.tableWrapper}>
+                <table className={styles.table}>
+                    <thead>
+                        <tr>
+                            <th>
+                                <input
+                                    type="checkbox"
+                                    checked={articles.length > 0 && selected.length === articles.length}
+                                    onChange={e => setSelected(e.target.checked ? articles.map(a => a.id) : [])}
+                                />
+                            </th>
+                            <th>Title</th>
+                            <th>Category</th>
+                            <th>Source</th>
+                            <th>Status</th>
+                            <th>Created</th>
+                            <th>Manage</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {articles.map(article => (
+                            <tr key={article.id}>
+                                <td>
+                                    <input
+                                        type="checkbox"
+                                        checked={selected.includes(article.id)}
+                                        onChange={() => toggleSelected(article.id)}
+                                    />
+                                </td>
+                                <td>
+                                    {article.featured && <Star size={14} color="#f59e0b" style={{ marginRight: 6 }} />}
+                                    {article.title}
+                                </td>
+                                <td>{article.category.name}</td>
+                                <td>{article.sourceName || '-'}</td>
+                                <td><span className={styles.countryBadge}>{article.status.replace('_', ' ')}</span></td>
+                                <td>{new Date(article.createdAt).toLocaleDateString()}</td>
+                                <td className={styles.actionCell}>
+                                    <button onClick={() => openEditor(article.id)} title="Edit"><Edit2 size={16} /></button>
+                                    <button onClick={() => handleDelete(article.id)} title="Delete" style={{ color: '#ef4444' }}><Trash2 size={16} /></button>
+                                    {article.published && (
+                                        <a href={`/article/${article.slug}`} target="_blank" rel="noopener noreferrer" title="View"><ExternalLink size={16} /></a>
+                                    )}
+                                </td>
+                            </tr>
+                        ))}
+                        {articles.length === 0 && (
+                            <tr>
+                                <td colSpan={7} style={{ textAlign: 'center', padding: '2rem', color: '#64748b' }}>
+                                    No articles match these filters.
+                                </td>
+                            </tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+
+            {totalPages > 1 && (
+                <div className={styles.pagination}>
+                    <button disabled={page <= 1} onClick={() => setPage(page - 1)}>← Previous</button>
+                    <span>Page {page} of {totalPages}</span>
+                    <button disabled={page >= totalPages} onClick={() => setPage(page + 1)}>Next →</button>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,168 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Eye, EyeOff, Trash2, Ban, ExternalLink } from 'lucide-react';
+import styles from './Admin.module.css';
+
+interface CommentRow {
+    id: string;
+    content: string;
+    hidden: boolean;
+    parentId: string | null;
+    createdAt: string;
+    editedAt: string | null;
+    author: { id: string; name: string | null; email: string; commentBanned: boolean };
+    article: { title: string; slug: string };
+}
+
+type ModerationAction = 'hide' | 'unhide' | 'delete' | 'ban' | 'unban';
+
+const EMPTY_FILTERS = { q: '', visibility: '', banned: '' };
+
+export default function CommentsTab() {
+    const [comments, setComments] = useState<CommentRow[]>([]);
+    const [filters, setFilters] = useState(EMPTY_FILTERS);
+    const [page, setPage] = useState(1);
+    const [totalPages, setTotalPages] = useState(1);
+    const [total, setTotal] = useState(0);
+
+    // Bumped after every moderation action to reload the current page
+    const [refreshKey, setRefreshKey] = useState(0);
+
+    useEffect(() => {
+        async function loadComments() {
+            const params = new URLSearchParams({ page: String(page) });
+            Object.entries(filters).forEach(([key, value]) => {
+                if (value) params.set(key, value);
+            });
+
+            try {
+                const res = await fetch(`/api/admin/comments?${params.toString()}`);
+                const data = await res.json();
+                if (res.ok) {
+                    setComments(data.comments);
+                    setTotal(data.pagination.total);
+                    setTotalPages(Math.max(data.pagination.totalPages, 1));
+                }
+            } catch (err) {
+                console.error('Failed to fetch comments:', err);
+            }
+        }
+        loadComments();
+    }, [filters, page, refreshKey]);
+
+    const updateFilter = (key: keyof typeof EMPTY_FILTERS, value: string) => {
+        setFilters(prev => ({ ...prev, [key]: value }));
+        setPage(1);
+    };
+
+    const moderate = async (comment: CommentRow, action: ModerationAction) => {
+        if (action === 'delete' && !confirm('Delete this comment and its replies?')) return;
+        if (action === 'ban' && !confirm(`Ban ${comment.author.email} from commenting? All of their comments will be hidden.`)) return;
+
+        try {
+            const res = await fetch('/api/admin/comments', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ id: comment.id, action }),
+            });
+            if (res.ok) {
+                setRefreshKey(k => k + 1);
+            } else {
+                const data = await res.json();
+                alert(data.message || 'Moderation failed');
+            }
+        } catch (err) {
+            console.error('Moderation failed:', err);
+        }
+    };
+
+    return (
+        <div className={styles.sourcesContainer}>
+            <div className={styles.sectionHeader}>
+                <h2>Moderate Comments ({total})</h2>
+            </div>
+
+            <div className={styles.filterBar}>
+                <input
+                    type="text"
+                    placeholder="Search comments"
+                    value={filters.q}
+                    onChange={e => updateFilter('q', e.target.value)}
+                />
+                <select value={filters.visibility} onChange={e => updateFilter('visibility', e.target.value)}>
+                    <option value="">Visible + hidden</option>
+                    <option value="visible">Visible</option>
+                    <option value="hidden">Hidden</option>
+                </select>
+                <select value={filters.banned} onChange={e => updateFilter('banned', e.target.value)}>
+                    <option value="">All authors</option>
+                    <option value="true">Banned authors</option>
+                </select>
+            </div>
+
+            <div className={styles.tableWrapper}>
+                <table className={styles.table}>
+                    <thead>
+                        <tr>
+                            <th>Comment</th>
+                            <th>Author</th>
+                            <th>Article</th>
+                            <th>Posted</th>
+                            <th>Status</th>
+                            <th>Moderate</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {comments.map(comment => (
+                            <tr key={comment.id}>
+                                <td style={{ maxWidth: 360 }}>
+                                    {comment.parentId && <span className={styles.countryBadge}>reply</span>} {comment.content}
+                                </td>
+                                <td>
+                                    {comment.author.name || comment.author.email}
+                                    {comment.author.commentBanned && <span className={styles.countryBadge}>banned</span>}
+                                </td>
+                                <td>
+                                    <a href={`/article/${comment.article.slug}`} target="_blank" rel="noopener noreferrer">
+                                        {comment.article.title} <ExternalLink size={12} />
+                                    </a>
+                                </td>
+                                <td>{new Date(comment.createdAt).toLocaleString()}</td>
+                                <td>{comment.hidden ? 'Hidden' : 'Visible'}</td>
+                                <td className={styles.actionCell}>
+                                    {comment.hidden ? (
+                                        <button onClick={() => moderate(comment, 'unhide')} title="Unhide"><Eye size={16} /></button>
+                                    ) : (
+                                        <button onClick={() => moderate(comment, 'hide')} title="Hide"><EyeOff size={16} /></button>
+                                    )}
+                                    <button onClick={() => moderate(comment, 'delete')} title="Delete" style={{ color: '#ef4444' }}><Trash2 size={16} /></button>
+                                    {comment.author.commentBanned ? (
+                                        <button onClick={() => moderate(comment, 'unban')} title="Unban author">Unban</button>
+                                    ) : (
+                                        <button onClick={() => moderate(comment, 'ban')} title="Ban author" style={{ color: '#ef4444' }}><Ban size={16} /></button>
+                                    )}
+                                </td>
+                            </tr>
+                        ))}
+                        {comments.length === 0 && (
+                            <tr>
+                                <td colSpan={6} style={{ textAlign: 'center', padding: '2rem', color: '#64748b' }}>
+                                    No comments match these filters.
+                                </td>
+                            </tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+
+            {totalPages > 1 && (
+                <div className={styles.pagination}>
+                    <button disabled={page <= 1} onClick={() => setPage(page - 1)}>← Previous</button>
+                    <span>Page {page} of {totalPages}</span>
+                    <button disabled={page >= totalPages} onClick={() => setPage(page + 1)}>Next →</button>
+                </div>
+            )}
+        </div>
+    );
+}
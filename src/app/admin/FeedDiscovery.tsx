@@ -0,0 +1,95 @@
+'use client';
+
+import { useState } from 'react';
+import { Search } from 'lucide-react';
+import styles from './Admin.module.css';
+
+export interface DiscoveredFeed {
+    url: string;
+    title: string | null;
+    format: 'rss' | 'atom' | 'json';
+    itemCount: number;
+    latestItemAt: string | null;
+    via: 'direct' | 'link' | 'path';
+}
+
+const FORMAT_LABELS: Record<DiscoveredFeed['format'], string> = {
+    rss: 'RSS',
+    atom: 'Atom',
+    json: 'JSON Feed',
+};
+
+/**
+ * "Add by website": finds a site's feeds and lets the admin pick one
+ */
+export default function FeedDiscovery({ selectedUrl, onPick }: { selectedUrl?: string; onPick: (feed: DiscoveredFeed) => void }) {
+    const [website, setWebsite] = useState('');
+    const [feeds, setFeeds] = useState<DiscoveredFeed[] | null>(null);
+    const [searching, setSearching] = useState(false);
+    const [error, setError] = useState('');
+
+    const discover = async () => {
+        if (!website.trim()) return;
+        setSearching(true);
+        setError('');
+        setFeeds(null);
+
+        try {
+            const res = await fetch('/api/admin/sources/discover', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ url: website }),
+            });
+            const json = await res.json();
+            if (!res.ok) throw new Error(json.message || 'Feed discovery failed');
+
+            setFeeds(json.feeds);
+            if (json.feeds.length === 1) onPick(json.feeds[0]);
+        } catch (err) {
+            setError((err as Error).message);
+        } finally {
+            setSearching(false);
+        }
+    };
+
+    return (
+        <div className={styles.formGroup}>
+            <label>Find feeds on a website</label>
+            <div className={styles.filterBar} style={{ marginBottom: 0 }}>
+                <input
+                    type="text"
+                    placeholder="e.g. thehindu.com"
+                    value={website}
+                    onChange={e => setWebsite(e.target.value)}
+                    onKeyDown={e => {
+                        if (e.key === 'Enter') {
+                            e.preventDefault();
+                            discover();
+                        }
+                    }}
+                />
+                <button type="button" className={styles.cancelBtn} disabled={searching} onClick={discover}>
+                    <Search size={14} /> {searching ? 'Searching...' : 'Find Feeds'}
+                </button>
+            </div>
+            {error && <p className={styles.formError}>{error}</p>}
+            {feeds && feeds.length === 0 && <p className={styles.hint}>No feeds found. Enter the feed URL below instead.</p>}
+            {feeds && feeds.map(feed => (
+                <label key={feed.url} className={styles.checkboxLabel}>
+                    <input
+                        type="radio"
+                        name="discoveredFeed"
+                        checked={selectedUrl === feed.url}
+                        onChange={() => onPick(feed)}
+                    />
+                    <span>
+                        {feed.title || feed.url} ({FORMAT_LABELS[feed.format]}, {feed.itemCount} items
+                        {feed.latestItemAt ? `, latest ${new Date(feed.latestItemAt).toLocaleDateString()}` : ''})
+                        <br />
+                        <span className={styles.hint}>{feed.url}</span>
+                    </span>
+                </label>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,413 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { CheckCircle, Circle, FileEdit } from 'lucide-react';
+import styles from './Admin.module.css';
+
+type PromptName = 'rephrase' | 'classify';
+
+interface PromptSettings {
+    temperature?: number | null;
+    topP?: number | null;
+    maxOutputTokens?: number | null;
+}
+
+interface PromptTemplateRow extends PromptSettings {
+    id: string;
+    name: PromptName;
+    categorySlug: string | null;
+    version: number;
+    body: string;
+    active: boolean;
+    note: string | null;
+    createdAt: string;
+    _count: { articles: number };
+}
+
+interface PromptsData {
+    templates: PromptTemplateRow[];
+    categories: { name: string; slug: string }[];
+    builtIn: Record<PromptName, { body: string } & PromptSettings>;
+    variables: Record<PromptName, string[]>;
+}
+
+interface EditorState {
+    body: string;
+    temperature: string;
+    topP: string;
+    maxOutputTokens: string;
+    note: string;
+    activate: boolean;
+    // Version the editor was loaded from, 0 for the built-in prompt
+    basedOn: number;
+}
+
+interface PreviewResult {
+    prompt: string;
+    text: string;
+    provider: string;
+    model: string;
+}
+
+const PROMPT_LABELS: Record<PromptName, string> = {
+    rephrase: 'Rephrase',
+    classify: 'Classify',
+};
+
+function toEditor(source: { body: string } & PromptSettings, basedOn: number): EditorState {
+    return {
+        body: source.body,
+        temperature: source.temperature?.toString() ?? '',
+        topP: source.topP?.toString() ?? '',
+        maxOutputTokens: source.maxOutputTokens?.toString() ?? '',
+        note: '',
+        activate: true,
+        basedOn,
+    };
+}
+
+function formatSettings(settings: PromptSettings): string {
+    return [
+        settings.temperature != null ? `temp ${settings.temperature}` : null,
+        settings.topP != null ? `top-p ${settings.topP}` : null,
+        settings.maxOutputTokens != null ? `${settings.maxOutputTokens} tokens` : null,
+    ].filter(Boolean).join(', ') || 'Defaults';
+}
+
+export default function PromptsTab() {
+    const [data, setData] = useState<PromptsData | null>(null);
+    const [name, setName] = useState<PromptName>('rephrase');
+    const [scope, setScope] = useState('');
+    const [editor, setEditor] = useState<EditorState | null>(null);
+    const [error, setError] = useState('');
+    const [saving, setSaving] = useState(false);
+
+    const [sample, setSample] = useState({ articleId: '', title: '', content: '' });
+    const [preview, setPreview] = useState<PreviewResult | null>(null);
+    const [previewing, setPreviewing] = useState(false);
+
+    // Bumped after saving or activating a version to reload the list
+    const [refreshKey, setRefreshKey] = useState(0);
+
+    useEffect(() => {
+        async function loadPrompts() {
+            try {
+                const res = await fetch('/api/admin/prompts');
+                const json = await res.json();
+                if (res.ok) setData(json);
+            } catch (err) {
+                console.error('Failed to fetch prompt templates:', err);
+            }
+        }
+        loadPrompts();
+    }, [refreshKey]);
+
+    const versions = data
+        ? data.templates.filter(t => t.name === name && t.categorySlug === (scope || null))
+        : [];
+
+    const switchPrompt = (nextName: PromptName, nextScope: string) => {
+        setName(nextName);
+        setScope(nextScope);
+        setEditor(null);
+        setPreview(null);
+        setError('');
+    };
+
+    const handleSave = async () => {
+        if (!editor) return;
+        setSaving(true);
+        setError('');
+
+        try {
+            const res = await fetch('/api/admin/prompts', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    name,
+                    categorySlug: scope || null,
+                    body: editor.body,
+                    temperature: editor.temperature,
+                    topP: editor.topP,
+                    maxOutputTokens: editor.maxOutputTokens,
+                    note: editor.note,
+                    activate: editor.activate,
+                }),
+            });
+            const json = await res.json();
+            if (!res.ok) throw new Error(json.message || 'Failed to save prompt');
+
+            setEditor(null);
+            setRefreshKey(k => k + 1);
+        } catch (err) {
+            setError((err as Error).message);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const setActive = async (template: PromptTemplateRow, active: boolean) => {
+        try {
+            const res = await fetch(`/api/admin/prompts/${template.id}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ active }),
+            });
+            if (res.ok) {
+                setRefreshKey(k => k + 1);
+            } else {
+                const json = await res.json();
+                alert(json.message || 'Failed to update prompt');
+            }
+        } catch (err) {
+            console.error('Failed to update prompt:', err);
+        }
+    };
+
+    const runPreview = async () => {
+        if (!editor) return;
+        setPreviewing(true);
+        setPreview(null);
+        setError('');
+
+        try {
+            const res = await fetch('/api/admin/prompts/preview', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    name,
+                    categorySlug: scope || null,
+                    body: editor.body,
+                    temperature: editor.temperature,
+                    topP: editor.topP,
+                    maxOutputTokens: editor.maxOutputTokens,
+                    articleId: sample.articleId || undefined,
+                    title: sample.title || undefined,
+                    content: sample.content || undefined,
+                }),
+            });
+            const json = await res.json();
+            if (!res.ok) throw new Error(json.message || 'Preview failed');
+
+            setPreview(json);
+        } catch (err) {
+            setError((err as Error).message);
+        } finally {
+            setPreviewing(false);
+        }
+    };
+
+    if (!data) {
+        return <div className={styles.sourcesContainer}>Loading prompts...</div>;
+    }
+
+    const activeVersion = versions.find(v => v.active);
+
+    return (
+        <div className={styles.sourcesContainer}>
+            <div className={styles.sectionHeader}>
+                <h2>Prompt Templates</h2>
+            </div>
+
+            <div className={styles.filterBar}>
+                <select value={name} onChange={e => switchPrompt(e.target.value as PromptName, '')}>
+                    {(Object.keys(PROMPT_LABELS) as PromptName[]).map(n => (
+                        <option key={n} value={n}>{PROMPT_LABELS[n]}</option>
+                    ))}
+                </select>
+                {/* Classification runs before an article has a category */}
+                <select value={scope} disabled={name === 'classify'} onChange={e => switchPrompt(name, e.target.value)}>
+                    <option value="">Default (all categories)</option>
+                    {data.categories.map(c => (
+                        <option key={c.slug} value={c.slug}>{c.name} override</option>
+                    ))}
+                </select>
+            </div>
+
+            <div className={styles.tableWrapper}>
+                <table className={styles.table}>
+                    <thead>
+                        <tr>
+                            <th>Version</th>
+                            <th>Note</th>
+                            <th>Settings</th>
+                            <th>Articles</th>
+                            <th>Created</th>
+                            <th>Manage</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {versions.map(template => (
+                            <tr key={template.id}>
+                                <td>
+                                    v{template.version}{' '}
+                                    {template.active && <span className={styles.countryBadge}>active</span>}
+                                </td>
+                                <td>{template.note || '—'}</td>
+                                <td>{formatSettings(template)}</td>
+                                <td>{template._count.articles}</td>
+                                <td>{new Date(template.createdAt).toLocaleString()}</td>
+                                <td className={styles.actionCell}>
+                                    <button onClick={() => setEditor(toEditor(template, template.version))} title="Edit as new version">
+                                        <FileEdit size={16} />
+                                    </button>
+                                    {template.active ? (
+                                        <button onClick={() => setActive(template, false)} title="Deactivate">
+                                            <CheckCircle size={16} color="#10b981" />
+                                        </button>
+                                    ) : (
+                                        <button onClick={() => setActive(template, true)} title="Activate">
+                                            <Circle size={16} />
+                                        </button>
+                                    )}
+                                </td>
+                            </tr>
+                        ))}
+                        <tr>
+                            <td>
+                                Built-in{' '}
+                                {!activeVersion && !scope && <span className={styles.countryBadge}>active</span>}
+                            </td>
+                            <td>{scope ? 'Used through the default when no override is active' : 'Shipped with the app'}</td>
+                            <td>{formatSettings(data.builtIn[name])}</td>
+                            <td>—</td>
+                            <td>—</td>
+                            <td className={styles.actionCell}>
+                                <button onClick={() => setEditor(toEditor(data.builtIn[name], 0))} title="Edit as new version">
+                                    <FileEdit size={16} />
+                                </button>
+                            </td>
+                        </tr>
+                    </tbody>
+                </table>
+            </div>
+
+            {editor && (
+                <div className={styles.promptEditor}>
+                    <div className={styles.sourceForm}>
+                        <h3>
+                            New {PROMPT_LABELS[name]} version{scope ? ` for ${scope}` : ''}
+                            {' '}(from {editor.basedOn ? `v${editor.basedOn}` : 'built-in'})
+                        </h3>
+                        <div className={styles.formGroup}>
+                            <label>Template</label>
+                            <textarea
+                                rows={18}
+                                value={editor.body}
+                                onChange={e => setEditor({ ...editor, body: e.target.value })}
+                            />
+                            <p className={styles.hint}>
+                                Variables: {data.variables[name].map(v => `{{${v}}}`).join(', ')}
+                            </p>
+                        </div>
+                        <div className={styles.settingsRow}>
+                            <div className={styles.formGroup}>
+                                <label>Temperature</label>
+                                <input
+                                    type="number"
+                                    step="0.1"
+                                    min="0"
+                                    max="2"
+                                    placeholder="Default"
+                                    value={editor.temperature}
+                                    onChange={e => setEditor({ ...editor, temperature: e.target.value })}
+                                />
+                            </div>
+                            <div className={styles.formGroup}>
+                                <label>Top P</label>
+                                <input
+                                    type="number"
+                                    step="0.05"
+                                    min="0"
+                                    max="1"
+                                    placeholder="Default"
+                                    value={editor.topP}
+                                    onChange={e => setEditor({ ...editor, topP: e.target.value })}
+                                />
+                            </div>
+                            <div className={styles.formGroup}>
+                                <label>Max output tokens</label>
+                                <input
+                                    type="number"
+                                    min="1"
+                                    placeholder="Default"
+                                    value={editor.maxOutputTokens}
+                                    onChange={e => setEditor({ ...editor, maxOutputTokens: e.target.value })}
+                                />
+                            </div>
+                        </div>
+                        <div className={styles.formGroup}>
+                            <label>Change note</label>
+                            <input
+                                type="text"
+                                placeholder="What changed and why"
+                                value={editor.note}
+                                onChange={e => setEditor({ ...editor, note: e.target.value })}
+                            />
+                        </div>
+                        <label className={styles.checkboxLabel}>
+                            <input
+                                type="checkbox"
+                                checked={editor.activate}
+                                onChange={e => setEditor({ ...editor, activate: e.target.checked })}
+                            />
+                            Activate on save
+                        </label>
+                        {error && <p className={styles.formError}>{error}</p>}
+                        <div className={styles.formActions}>
+                            <button type="button" className={styles.saveBtn} disabled={saving} onClick={handleSave}>
+                                Save Version
+                            </button>
+                            <button type="button" className={styles.cancelBtn} onClick={() => setEditor(null)}>Cancel</button>
+                        </div>
+                    </div>
+
+                    <div className={styles.sourceForm}>
+                        <h3>Preview</h3>
+                        <div className={styles.formGroup}>
+                            <label>Sample article (ID or slug)</label>
+                            <input
+                                type="text"
+                                placeholder="Uses the article's original feed content"
+                                value={sample.articleId}
+                                onChange={e => setSample({ ...sample, articleId: e.target.value })}
+                            />
+                        </div>
+                        <div className={styles.formGroup}>
+                            <label>Or paste a title and content</label>
+                            <input
+                                type="text"
+                                placeholder="Title"
+                                value={sample.title}
+                                onChange={e => setSample({ ...sample, title: e.target.value })}
+                            />
+                            <textarea
+                                rows={5}
+                                placeholder="Original content"
+                                value={sample.content}
+                                onChange={e => setSample({ ...sample, content: e.target.value })}
+                            />
+                        </div>
+                        <div className={styles.formActions}>
+                            <button type="button" className={styles.saveBtn} disabled={previewing} onClick={runPreview}>
+                                {previewing ? 'Running...' : 'Run Preview'}
+                            </button>
+                        </div>
+                        {preview && (
+                            <>
+                                <div className={styles.formGroup}>
+                                    <label>Output ({preview.provider} / {preview.model})</label>
+                                    <pre className={styles.previewOutput}>{preview.text}</pre>
+                                </div>
+                                <div className={styles.formGroup}>
+                                    <label>Rendered prompt</label>
+                                    <pre className={styles.previewOutput}>{preview.prompt}</pre>
+                                </div>
+                            </>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
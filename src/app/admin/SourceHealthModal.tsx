@@ -0,0 +1,202 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Activity } from 'lucide-react';
+import styles from './Admin.module.css';
+
+export type FeedHealth = 'healthy' | 'failing' | 'quarantined';
+
+export interface SourceHealth {
+    health: FeedHealth;
+    consecutiveFailures: number;
+    lastSuccessAt: string | null;
+    lastErrorAt: string | null;
+    lastError: string | null;
+    lastHttpStatus: number | null;
+    avgItemCount: number | null;
+    quarantinedAt: string | null;
+    nextProbeAt: string | null;
+}
+
+interface FeedCheck {
+    id: string;
+    ok: boolean;
+    errorType: string | null;
+    error: string | null;
+    httpStatus: number | null;
+    itemCount: number | null;
+    bytes: number | null;
+    durationMs: number;
+    createdAt: string;
+}
+
+export const HEALTH_COLORS: Record<FeedHealth, { background: string; color: string }> = {
+    healthy: { background: '#ecfdf5', color: '#047857' },
+    failing: { background: '#fffbeb', color: '#b45309' },
+    quarantined: { background: '#fef2f2', color: '#b91c1c' },
+};
+
+function formatBytes(bytes: number | null): string {
+    if (bytes === null) return '—';
+    return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+function formatTime(value: string | null): string {
+    return value ? new Date(value).toLocaleString() : '—';
+}
+
+export function HealthBadge({ source }: { source: SourceHealth }) {
+    const title = source.health === 'quarantined'
+        ? `Next probe ${formatTime(source.nextProbeAt)}`
+        : source.lastError && source.health === 'failing'
+            ? source.lastError
+            : `Last success ${formatTime(source.lastSuccessAt)}`;
+
+    return (
+        <span className={styles.countryBadge} style={HEALTH_COLORS[source.health]} title={title}>
+            {source.health}{source.consecutiveFailures > 0 ? ` (${source.consecutiveFailures})` : ''}
+        </span>
+    );
+}
+
+export default function SourceHealthModal({
+    source,
+    onClose,
+    onChange,
+}: {
+    source: { id: string; name: string; url: string };
+    onClose: () => void;
+    onChange: () => void;
+}) {
+    const [health, setHealth] = useState<SourceHealth | null>(null);
+    const [checks, setChecks] = useState<FeedCheck[]>([]);
+    const [probing, setProbing] = useState(false);
+    const [message, setMessage] = useState('');
+
+    useEffect(() => {
+        async function loadHealth() {
+            try {
+                const res = await fetch(`/api/admin/sources/${source.id}/health`);
+                const data = await res.json();
+                if (res.ok) {
+                    setHealth(data.source);
+                    setChecks(data.checks);
+                }
+            } catch (err) {
+                console.error('Failed to fetch source health:', err);
+            }
+        }
+        loadHealth();
+    }, [source.id]);
+
+    const probe = async () => {
+        setProbing(true);
+        setMessage('');
+        try {
+            const res = await fetch(`/api/admin/sources/${source.id}/health`, { method: 'POST' });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.message || 'Probe failed');
+
+            setHealth(data.source);
+            setChecks(data.checks);
+            setMessage(data.probe.ok ? `Fetched ${data.probe.itemCount} items` : `Failed: ${data.probe.error}`);
+            onChange();
+        } catch (err) {
+            setMessage((err as Error).message);
+        } finally {
+            setProbing(false);
+        }
+    };
+
+    return (
+        <div className={styles.modalOverlay}>
+            <div className={`${styles.modal} ${styles.modalWide}`}>
+                <h3>{source.name} feed health</h3>
+                <p className={styles.hint}>{source.url}</p>
+
+                {health && (
+                    <div className={styles.statsRow}>
+                        <div className={styles.statCard}>
+                            <div className={styles.statIcon} style={HEALTH_COLORS[health.health]}>
+                                <Activity size={24} />
+                            </div>
+                            <div className={styles.statInfo}>
+                                <p>Status</p>
+                                <h3>{health.health}</h3>
+                                <p>
+                                    {health.health === 'quarantined'
+                                        ? `Since ${formatTime(health.quarantinedAt)}, next probe ${formatTime(health.nextProbeAt)}`
+                                        : `${health.consecutiveFailures} consecutive failures`}
+                                </p>
+                            </div>
+                        </div>
+                        <div className={styles.statCard}>
+                            <div className={styles.statInfo}>
+                                <p>Last success</p>
+                                <h3>{formatTime(health.lastSuccessAt)}</h3>
+                                <p>
+                                    {health.avgItemCount !== null ? `~${Math.round(health.avgItemCount)} items per fetch` : 'No successful fetch yet'}
+                                </p>
+                            </div>
+                        </div>
+                        <div className={styles.statCard}>
+                            <div className={styles.statInfo}>
+                                <p>Last error</p>
+                                <h3>{formatTime(health.lastErrorAt)}</h3>
+                                <p>{health.lastError || '—'}</p>
+                            </div>
+                        </div>
+                    </div>
+                )}
+
+                <div className={styles.tableWrapper}>
+                    <table className={styles.table}>
+                        <thead>
+                            <tr>
+                                <th>Time</th>
+                                <th>Result</th>
+                                <th>HTTP</th>
+                                <th>Items</th>
+                                <th>Size</th>
+                                <th>Duration</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {checks.map(check => (
+                                <tr key={check.id}>
+                                    <td>{formatTime(check.createdAt)}</td>
+                                    <td>
+                                        {check.ok ? (check.httpStatus === 304 ? 'Not modified' : 'OK') : (
+                                            <span title={check.error || undefined}>
+                                                {check.errorType} error{check.error ? `: ${check.error}` : ''}
+                                            </span>
+                                        )}
+                                    </td>
+                                    <td>{check.httpStatus ?? '—'}</td>
+                                    <td>{check.itemCount ?? '—'}</td>
+                                    <td>{formatBytes(check.bytes)}</td>
+                                    <td>{check.durationMs}ms</td>
+                                </tr>
+                            ))}
+                            {checks.length === 0 && (
+                                <tr>
+                                    <td colSpan={6} style={{ textAlign: 'center', padding: '2rem', color: '#64748b' }}>
+                                        This feed has not been fetched yet.
+                                    </td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+
+                {message && <p className={styles.hint}>{message}</p>}
+                <div className={styles.formActions}>
+                    <button type="button" className={styles.saveBtn} disabled={probing} onClick={probe}>
+                        {probing ? 'Probing...' : 'Probe Now'}
+                    </button>
+                    <button type="button" className={styles.cancelBtn} onClick={onClose}>Close</button>
+                </div>
+            </div>
+        </div>
+    );
+}
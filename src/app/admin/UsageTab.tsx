@@ -0,0 +1,319 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { DollarSign, Cpu, AlertTriangle, Database, Trash2 } from 'lucide-react';
+import styles from './Admin.module.css';
+
+interface UsageRow {
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    costUsd: number;
+}
+
+interface BudgetStatus {
+    state: 'ok' | 'degraded' | 'exhausted';
+    spentUsd: number;
+    limitUsd: number;
+    country: string | null;
+    countrySpentUsd: number;
+    countryLimitUsd: number;
+    resetsAt: string;
+}
+
+interface UsageReport {
+    days: number;
+    outcomes: Record<string, number>;
+    daily: (UsageRow & { day: string })[];
+    bySource: (UsageRow & { sourceId: string | null; name: string; country: string | null; category: string | null })[];
+    byCategory: (UsageRow & { category: string | null })[];
+    byCountry: (UsageRow & { country: string | null })[];
+    budget: { degradeAt: number; global: BudgetStatus; countries: BudgetStatus[] };
+}
+
+interface CacheReport {
+    ttlHours: number;
+    entries: { task: string; count: number; hits: number }[];
+    expired: number;
+    hits: number;
+    misses: number;
+    hitRate: number;
+    daily: { day: string; task: string; hits: number; misses: number }[];
+}
+
+const BUDGET_COLORS: Record<BudgetStatus['state'], string> = {
+    ok: '#10b981',
+    degraded: '#f59e0b',
+    exhausted: '#ef4444',
+};
+
+function formatUsd(value: number): string {
+    return `$${value.toFixed(value < 1 ? 4 : 2)}`;
+}
+
+function formatTokens(row: UsageRow): string {
+    return `${row.inputTokens.toLocaleString()} in / ${row.outputTokens.toLocaleString()} out`;
+}
+
+function UsageTable({ title, label, rows }: { title: string; label: string; rows: (UsageRow & { key: string; name: string })[] }) {
+    return (
+        <div className={styles.usageSection}>
+            <h2>{title}</h2>
+            <div className={styles.tableWrapper}>
+                <table className={styles.table}>
+                    <thead>
+                        <tr>
+                            <th>{label}</th>
+                            <th>Calls</th>
+                            <th>Tokens</th>
+                            <th>Cost</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map(row => (
+                            <tr key={row.key}>
+                                <td>{row.name}</td>
+                                <td>{row.calls}</td>
+                                <td>{formatTokens(row)}</td>
+                                <td>{formatUsd(row.costUsd)}</td>
+                            </tr>
+                        ))}
+                        {rows.length === 0 && (
+                            <tr>
+                                <td colSpan={4} style={{ textAlign: 'center', padding: '2rem', color: '#64748b' }}>
+                                    No LLM calls in this period.
+                                </td>
+                            </tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
+
+function CacheSection({ cache, onPurge }: { cache: CacheReport; onPurge: (options: { task?: string; expiredOnly?: boolean }) => void }) {
+    const totalEntries = cache.entries.reduce((sum, e) => sum + e.count, 0);
+
+    return (
+        <div className={styles.usageSection}>
+            <div className={styles.sectionHeader}>
+                <h2>Result Cache</h2>
+                <div className={styles.formActions} style={{ marginTop: 0 }}>
+                    <button type="button" className={styles.cancelBtn} onClick={() => onPurge({ expiredOnly: true })}>
+                        Purge expired ({cache.expired})
+                    </button>
+                    <button type="button" className={styles.saveBtn} onClick={() => onPurge({})}>
+                        Purge all
+                    </button>
+                </div>
+            </div>
+            <div className={styles.statsRow}>
+                <div className={styles.statCard}>
+                    <div className={styles.statIcon} style={{ background: '#f0fdf4', color: '#10b981' }}>
+                        <Database size={24} />
+                    </div>
+                    <div className={styles.statInfo}>
+                        <p>Hit rate in period</p>
+                        <h3>{Math.round(cache.hitRate * 100)}%</h3>
+                        <p>{cache.hits} hits, {cache.misses} misses</p>
+                    </div>
+                </div>
+                <div className={styles.statCard}>
+                    <div className={styles.statIcon} style={{ background: '#eff6ff', color: '#3b82f6' }}>
+                        <Database size={24} />
+                    </div>
+                    <div className={styles.statInfo}>
+                        <p>Cached results</p>
+                        <h3>{totalEntries}</h3>
+                        <p>{cache.ttlHours > 0 ? `Kept for ${cache.ttlHours} hours` : 'Cache disabled'}</p>
+                    </div>
+                </div>
+            </div>
+            <div className={styles.tableWrapper}>
+                <table className={styles.table}>
+                    <thead>
+                        <tr>
+                            <th>Task</th>
+                            <th>Entries</th>
+                            <th>Hits served</th>
+                            <th>Manage</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {cache.entries.map(entry => (
+                            <tr key={entry.task}>
+                                <td>{entry.task}</td>
+                                <td>{entry.count}</td>
+                                <td>{entry.hits}</td>
+                                <td className={styles.actionCell}>
+                                    <button onClick={() => onPurge({ task: entry.task })} title={`Purge ${entry.task} results`}>
+                                        <Trash2 size={16} />
+                                    </button>
+                                </td>
+                            </tr>
+                        ))}
+                        {cache.entries.length === 0 && (
+                            <tr>
+                                <td colSpan={4} style={{ textAlign: 'center', padding: '2rem', color: '#64748b' }}>
+                                    The cache is empty.
+                                </td>
+                            </tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
+
+function BudgetCard({ status, degradeAt }: { status: BudgetStatus; degradeAt: number }) {
+    const spent = status.country ? status.countrySpentUsd : status.spentUsd;
+    const limit = status.country ? status.countryLimitUsd : status.limitUsd;
+
+    return (
+        <div className={styles.statCard} style={{ borderLeft: `4px solid ${BUDGET_COLORS[status.state]}` }}>
+            <div className={styles.statIcon} style={{ background: '#f8fafc', color: BUDGET_COLORS[status.state] }}>
+                {status.state === 'ok' ? <DollarSign size={24} /> : <AlertTriangle size={24} />}
+            </div>
+            <div className={styles.statInfo}>
+                <p>{status.country || 'All countries'} today</p>
+                <h3>{formatUsd(spent)}{limit > 0 ? ` / ${formatUsd(limit)}` : ''}</h3>
+                <p>
+                    {limit <= 0 && 'No budget set'}
+                    {limit > 0 && status.state === 'ok' && `Saves calls from ${Math.round(degradeAt * 100)}%`}
+                    {limit > 0 && status.state === 'degraded' && 'Running low: classification skipped'}
+                    {limit > 0 && status.state === 'exhausted' && `Paused until ${new Date(status.resetsAt).toLocaleString()}`}
+                </p>
+            </div>
+        </div>
+    );
+}
+
+export default function UsageTab() {
+    const [report, setReport] = useState<UsageReport | null>(null);
+    const [cache, setCache] = useState<CacheReport | null>(null);
+    const [days, setDays] = useState(7);
+
+    // Bumped after a purge to reload the cache stats
+    const [refreshKey, setRefreshKey] = useState(0);
+
+    useEffect(() => {
+        async function loadUsage() {
+            try {
+                const res = await fetch(`/api/admin/llm-usage?days=${days}`);
+                const data = await res.json();
+                if (res.ok) setReport(data);
+            } catch (err) {
+                console.error('Failed to fetch LLM usage:', err);
+            }
+        }
+        loadUsage();
+    }, [days]);
+
+    useEffect(() => {
+        async function loadCache() {
+            try {
+                const res = await fetch(`/api/admin/llm-cache?days=${days}`);
+                const data = await res.json();
+                if (res.ok) setCache(data);
+            } catch (err) {
+                console.error('Failed to fetch LLM cache stats:', err);
+            }
+        }
+        loadCache();
+    }, [days, refreshKey]);
+
+    const purgeCache = async (options: { task?: string; expiredOnly?: boolean }) => {
+        const scope = options.task ? `cached ${options.task} results` : options.expiredOnly ? 'expired cached results' : 'all cached results';
+        if (!confirm(`Purge ${scope}?`)) return;
+
+        try {
+            const res = await fetch('/api/admin/llm-cache', {
+                method: 'DELETE',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(options),
+            });
+            const json = await res.json();
+            if (!res.ok) {
+                alert(json.message || 'Failed to purge cache');
+                return;
+            }
+            setRefreshKey(k => k + 1);
+        } catch (err) {
+            console.error('Failed to purge LLM cache:', err);
+        }
+    };
+
+    if (!report) {
+        return <div className={styles.sourcesContainer}>Loading usage...</div>;
+    }
+
+    const totalCalls = Object.values(report.outcomes).reduce((sum, n) => sum + n, 0);
+    const totalCost = report.daily.reduce((sum, d) => sum + d.costUsd, 0);
+
+    return (
+        <div className={styles.sourcesContainer}>
+            <div className={styles.sectionHeader}>
+                <h2>LLM Usage &amp; Cost</h2>
+                <div className={styles.filterBar} style={{ marginBottom: 0 }}>
+                    <select value={days} onChange={e => setDays(parseInt(e.target.value))}>
+                        <option value={1}>Last 24 hours</option>
+                        <option value={7}>Last 7 days</option>
+                        <option value={30}>Last 30 days</option>
+                        <option value={90}>Last 90 days</option>
+                    </select>
+                </div>
+            </div>
+
+            <div className={styles.statsRow}>
+                <BudgetCard status={report.budget.global} degradeAt={report.budget.degradeAt} />
+                {report.budget.countries.map(status => (
+                    <BudgetCard key={status.country} status={status} degradeAt={report.budget.degradeAt} />
+                ))}
+                <div className={styles.statCard}>
+                    <div className={styles.statIcon} style={{ background: '#eff6ff', color: '#3b82f6' }}>
+                        <Cpu size={24} />
+                    </div>
+                    <div className={styles.statInfo}>
+                        <p>Calls in period</p>
+                        <h3>{totalCalls} · {formatUsd(totalCost)}</h3>
+                        <p>
+                            {report.outcomes.error || 0} errors, {report.outcomes.invalid || 0} invalid outputs
+                        </p>
+                    </div>
+                </div>
+            </div>
+
+            {cache && <CacheSection cache={cache} onPurge={purgeCache} />}
+
+            <UsageTable
+                title="By Source"
+                label="Source"
+                rows={report.bySource.map(s => ({
+                    ...s,
+                    key: s.sourceId || 'none',
+                    name: s.country ? `${s.name} (${s.country}, ${s.category})` : s.name,
+                }))}
+            />
+
+            <UsageTable
+                title="By Category"
+                label="Category"
+                rows={report.byCategory.map(c => ({ ...c, key: c.category || 'none', name: c.category || 'Uncategorised' }))}
+            />
+
+            <UsageTable
+                title="By Country"
+                label="Country"
+                rows={report.byCountry.map(c => ({ ...c, key: c.country || 'none', name: c.country || 'None' }))}
+            />
+
+            <UsageTable
+                title="By Day (UTC)"
+                label="Day"
+                rows={report.daily.map(d => ({ ...d, key: d.day, name: new Date(d.day).toLocaleDateString(undefined, { timeZone: 'UTC' }) }))}
+            />
+        </div>
+    );
+}
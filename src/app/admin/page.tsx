@@ -17,15 +17,26 @@ import {
     Clock,
     Eye,
     Shield,
-    Mail
+    Mail,
+    ClipboardCheck,
+    Sparkles,
+    Cpu,
+    Activity
 } from 'lucide-react';
 import styles from './Admin.module.css';
+import ArticlesTab from './ArticlesTab';
+import CommentsTab from './CommentsTab';
+import PromptsTab from './PromptsTab';
+import UsageTab from './UsageTab';
+import SourceHealthModal, { HealthBadge, SourceHealth } from './SourceHealthModal';
+import FeedDiscovery from './FeedDiscovery';
 
 interface Stat {
     users: number;
     articles: number;
     comments: number;
     subscribers: number;
+    inReview: number;
 }
 
 interface Analytics {
@@ -39,15 +50,20 @@ interface Newsletter {
     id: string;
     email: string;
     createdAt: string;
+    confirmedAt: string | null;
+    unsubscribedAt: string | null;
+    frequency: string;
 }
 
-interface Source {
+interface Source extends SourceHealth {
     id: string;
     country: string;
     name: string;
     category: string;
     url: string;
     active: boolean;
+    autoPublish: boolean;
+    extractFullText: boolean;
 }
 
 export default function AdminDashboard() {
@@ -59,10 +75,11 @@ export default function AdminDashboard() {
     const [sources, setSources] = useState<Source[]>([]);
     const [newsletter, setNewsletter] = useState<Newsletter[]>([]);
     const [loading, setLoading] = useState(true);
-    const [activeTab, setActiveTab] = useState<'overview' | 'sources' | 'analytics' | 'newsletter'>('overview');
+    const [activeTab, setActiveTab] = useState<'overview' | 'articles' | 'comments' | 'sources' | 'prompts' | 'usage' | 'analytics' | 'newsletter'>('overview');
 
     // Form state for adding/editing sources
     const [editingSource, setEditingSource] = useState<Partial<Source> | null>(null);
+    const [healthSource, setHealthSource] = useState<Source | null>(null);
 
     const fetchData = async () => {
         try {
@@ -138,12 +155,36 @@ export default function AdminDashboard() {
                     >
                         <BarChart3 size={20} /> Overview
                     </button>
+                    <button
+                        className={activeTab === 'articles' ? styles.navItemActive : styles.navItem}
+                        onClick={() => setActiveTab('articles')}
+                    >
+                        <Newspaper size={20} /> Articles
+                    </button>
+                    <button
+                        className={activeTab === 'comments' ? styles.navItemActive : styles.navItem}
+                        onClick={() => setActiveTab('comments')}
+                    >
+                        <MessageSquare size={20} /> Comments
+                    </button>
                     <button
                         className={activeTab === 'sources' ? styles.navItemActive : styles.navItem}
                         onClick={() => setActiveTab('sources')}
                     >
                         <Globe size={20} /> News Sources
                     </button>
+                    <button
+                        className={activeTab === 'prompts' ? styles.navItemActive : styles.navItem}
+                        onClick={() => setActiveTab('prompts')}
+                    >
+                        <Sparkles size={20} /> Prompts
+                    </button>
+                    <button
+                        className={activeTab === 'usage' ? styles.navItemActive : styles.navItem}
+                        onClick={() => setActiveTab('usage')}
+                    >
+                        <Cpu size={20} /> AI Usage
+                    </button>
                     <button
                         className={activeTab === 'analytics' ? styles.navItemActive : styles.navItem}
                         onClick={() => setActiveTab('analytics')}
@@ -156,6 +197,9 @@ export default function AdminDashboard() {
                     >
                         <Mail size={20} /> Newsletter
                     </button>
+                    <button className={styles.navItem} onClick={() => router.push('/admin/review')}>
+                        <ClipboardCheck size={20} /> Review Queue{stats?.inReview ? ` (${stats.inReview})` : ''}
+                    </button>
                     <button className={styles.navItem} onClick={() => router.push('/')}>
                         <ExternalLink size={20} /> View Site
                     </button>
@@ -238,6 +282,14 @@ export default function AdminDashboard() {
                     </div>
                 )}
 
+                {activeTab === 'articles' && <ArticlesTab />}
+
+                {activeTab === 'comments' && <CommentsTab />}
+
+                {activeTab === 'prompts' && <PromptsTab />}
+
+                {activeTab === 'usage' && <UsageTab />}
+
                 {activeTab === 'sources' && (
                     <div className={styles.sourcesContainer}>
                         <div className={styles.sectionHeader}>
@@ -287,8 +339,18 @@ export default function AdminDashboard() {
                                                 <option value="technology">Technology</option>
                                             </select>
                                         </div>
+                                        {!editingSource.id && (
+                                            <FeedDiscovery
+                                                selectedUrl={editingSource.url}
+                                                onPick={feed => setEditingSource({
+                                                    ...editingSource,
+                                                    url: feed.url,
+                                                    name: editingSource.name || feed.title || '',
+                                                })}
+                                            />
+                                        )}
                                         <div className={styles.formGroup}>
-                                            <label>RSS URL</label>
+                                            <label>Feed URL (RSS, Atom or JSON Feed)</label>
                                             <input
                                                 type="url"
                                                 required
@@ -296,6 +358,26 @@ export default function AdminDashboard() {
                                                 onChange={e => setEditingSource({ ...editingSource, url: e.target.value })}
                                             />
                                         </div>
+                                        <div className={styles.formGroup}>
+                                            <label>Publishing</label>
+                                            <select
+                                                value={editingSource.autoPublish === false ? 'review' : 'auto'}
+                                                onChange={e => setEditingSource({ ...editingSource, autoPublish: e.target.value === 'auto' })}
+                                            >
+                                                <option value="auto">Auto-publish AI rewrites</option>
+                                                <option value="review">Send to review queue</option>
+                                            </select>
+                                        </div>
+                                        <div className={styles.formGroup}>
+                                            <label>Article Text</label>
+                                            <select
+                                                value={editingSource.extractFullText ? 'page' : 'feed'}
+                                                onChange={e => setEditingSource({ ...editingSource, extractFullText: e.target.value === 'page' })}
+                                            >
+                                                <option value="feed">Feed description only</option>
+                                                <option value="page">Fetch full article from the page</option>
+                                            </select>
+                                        </div>
                                         <div className={styles.formActions}>
                                             <button type="submit" className={styles.saveBtn}>Save Source</button>
                                             <button type="button" className={styles.cancelBtn} onClick={() => setEditingSource(null)}>Cancel</button>
@@ -305,6 +387,14 @@ export default function AdminDashboard() {
                             </div>
                         )}
 
+                        {healthSource && (
+                            <SourceHealthModal
+                                source={healthSource}
+                                onClose={() => setHealthSource(null)}
+                                onChange={fetchData}
+                            />
+                        )}
+
                         <div className={styles.tableWrapper}>
                             <table className={styles.table}>
                                 <thead>
@@ -312,6 +402,8 @@ export default function AdminDashboard() {
                                         <th>Country</th>
                                         <th>Provider</th>
                                         <th>Category</th>
+                                        <th>Publishing</th>
+                                        <th>Health</th>
                                         <th>Manage</th>
                                     </tr>
                                 </thead>
@@ -321,7 +413,10 @@ export default function AdminDashboard() {
                                             <td><span className={styles.countryBadge}>{source.country}</span></td>
                                             <td>{source.name}</td>
                                             <td>{source.category}</td>
+                                            <td>{source.autoPublish ? 'Auto' : 'Review'}</td>
+                                            <td><HealthBadge source={source} /></td>
                                             <td className={styles.actionCell}>
+                                                <button onClick={() => setHealthSource(source)} title="Health history"><Activity size={16} /></button>
                                                 <button onClick={() => setEditingSource(source)} title="Edit"><Edit2 size={16} /></button>
                                                 <button onClick={() => handleDeleteSource(source.id)} title="Delete" style={{ color: '#ef4444' }}><Trash2 size={16} /></button>
                                                 <a href={source.url} target="_blank" rel="noopener noreferrer" title="Test URL"><ExternalLink size={16} /></a>
@@ -372,6 +467,8 @@ export default function AdminDashboard() {
                                 <thead>
                                     <tr>
                                         <th>Email Address</th>
+                                        <th>Status</th>
+                                        <th>Frequency</th>
                                         <th>Joined Date</th>
                                     </tr>
                                 </thead>
@@ -379,12 +476,14 @@ export default function AdminDashboard() {
                                     {newsletter.map(sub => (
                                         <tr key={sub.id}>
                                             <td className={styles.pathCell}>{sub.email}</td>
+                                            <td>{sub.unsubscribedAt ? 'Unsubscribed' : sub.confirmedAt ? 'Confirmed' : 'Pending'}</td>
+                                            <td>{sub.frequency}</td>
                                             <td>{new Date(sub.createdAt).toLocaleDateString()}</td>
                                         </tr>
                                     ))}
                                     {newsletter.length === 0 && (
                                         <tr>
-                                            <td colSpan={2} style={{ textAlign: 'center', padding: '2rem', color: '#64748b' }}>
+                                            <td colSpan={4} style={{ textAlign: 'center', padding: '2rem', color: '#64748b' }}>
                                                 No subscribers yet.
                                             </td>
                                         </tr>
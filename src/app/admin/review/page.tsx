@@ -0,0 +1,247 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useCallback, useEffect, useState } from 'react';
+import { ArrowLeft, ExternalLink } from 'lucide-react';
+import type { FactCheckReport, ExtractedFacts } from '@/lib/factCheck';
+import styles from './Review.module.css';
+
+interface ReviewArticle {
+    id: string;
+    title: string;
+    excerpt: string | null;
+    content: string;
+    rawContent: string | null;
+    status: string;
+    sourceName: string | null;
+    sourceUrl: string | null;
+    createdAt: string;
+    reviewNote: string | null;
+    aiError: string | null;
+    factCheck: string | null;
+    factCheckPassed: boolean | null;
+    category: { name: string; slug: string };
+}
+
+type ReviewAction = 'approve' | 'publish' | 'reject' | 'edit';
+
+const FILTERS = [
+    { label: 'All', value: '' },
+    { label: 'AI Failed', value: 'ingested' },
+    { label: 'In Review', value: 'in_review' },
+    { label: 'Drafted', value: 'drafted' },
+    { label: 'Approved', value: 'approved' },
+];
+
+const FACT_TYPES: { key: keyof ExtractedFacts; label: string }[] = [
+    { key: 'numbers', label: 'Numbers' },
+    { key: 'dates', label: 'Dates' },
+    { key: 'quotes', label: 'Quotes' },
+    { key: 'entities', label: 'Names' },
+];
+
+function FactCheckDiff({ report }: { report: FactCheckReport }) {
+    const rows = FACT_TYPES.filter(t => report.missing[t.key].length > 0 || report.invented[t.key].length > 0);
+    if (rows.length === 0) return null;
+
+    return (
+        <div className={report.passed ? styles.factCheck : styles.factCheckFailed}>
+            <h3>{report.passed ? 'Fact check passed with minor differences' : 'Fact check failed'}</h3>
+            {rows.map(t => (
+                <div key={t.key} className={styles.factRow}>
+                    <span className={styles.factLabel}>{t.label}</span>
+                    {report.missing[t.key].map(fact => (
+                        <span key={`missing-${fact}`} className={styles.factMissing} title="In the original but not in the rewrite">− {fact}</span>
+                    ))}
+                    {report.invented[t.key].map(fact => (
+                        <span key={`invented-${fact}`} className={styles.factInvented} title="In the rewrite but not in the original">+ {fact}</span>
+                    ))}
+                </div>
+            ))}
+        </div>
+    );
+}
+
+export default function ReviewQueuePage() {
+    const { data: session, status } = useSession();
+    const router = useRouter();
+
+    const [articles, setArticles] = useState<ReviewArticle[]>([]);
+    const [counts, setCounts] = useState<Record<string, number>>({});
+    const [filter, setFilter] = useState('');
+    const [loading, setLoading] = useState(true);
+    const [savingId, setSavingId] = useState<string | null>(null);
+
+    // Local edits keyed by article id
+    const [drafts, setDrafts] = useState<Record<string, Partial<ReviewArticle>>>({});
+
+    const fetchQueue = useCallback(async () => {
+        try {
+            const res = await fetch(`/api/admin/review${filter ? `?status=${filter}` : ''}`);
+            const data = await res.json();
+            if (res.ok) {
+                setArticles(data.articles);
+                setCounts(data.counts);
+            }
+        } catch (err) {
+            console.error('Failed to fetch review queue:', err);
+        } finally {
+            setLoading(false);
+        }
+    }, [filter]);
+
+    useEffect(() => {
+        if (status === 'unauthenticated' || (session && (session.user as any).role !== 'ADMIN')) {
+            router.push('/');
+        } else if (status === 'authenticated') {
+            fetchQueue();
+        }
+    }, [status, session, router, fetchQueue]);
+
+    const updateDraft = (id: string, changes: Partial<ReviewArticle>) => {
+        setDrafts(prev => ({ ...prev, [id]: { ...prev[id], ...changes } }));
+    };
+
+    const handleAction = async (article: ReviewArticle, action: ReviewAction) => {
+        if (action === 'reject' && !confirm('Reject this article?')) return;
+
+        setSavingId(article.id);
+        try {
+            const res = await fetch('/api/admin/review', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    id: article.id,
+                    action,
+                    ...drafts[article.id],
+                    note: drafts[article.id]?.reviewNote,
+                }),
+            });
+            const data = await res.json();
+            if (res.ok) {
+                setDrafts(prev => {
+                    const next = { ...prev };
+                    delete next[article.id];
+                    return next;
+                });
+                fetchQueue();
+            } else {
+                alert(data.message || 'Review action failed');
+            }
+        } catch (err) {
+            console.error('Failed to review article:', err);
+        } finally {
+            setSavingId(null);
+        }
+    };
+
+    if (status === 'loading' || loading) {
+        return <div className={styles.empty}>Loading Review Queue...</div>;
+    }
+
+    const totalQueued = Object.values(counts).reduce((sum, n) => sum + n, 0);
+
+    return (
+        <div className={styles.page}>
+            <header className={styles.header}>
+                <h1>Review Queue ({totalQueued})</h1>
+                <Link href="/admin" className={styles.backLink}>
+                    <ArrowLeft size={18} /> Back to Dashboard
+                </Link>
+            </header>
+
+            <div className={styles.filters}>
+                {FILTERS.map(f => (
+                    <button
+                        key={f.value}
+                        className={filter === f.value ? styles.filterBtnActive : styles.filterBtn}
+                        onClick={() => setFilter(f.value)}
+                    >
+                        {f.label}{f.value && counts[f.value] ? ` (${counts[f.value]})` : ''}
+                    </button>
+                ))}
+            </div>
+
+            {articles.length === 0 && (
+                <div className={styles.empty}>Nothing waiting for review.</div>
+            )}
+
+            {articles.map(article => {
+                const draft = { ...article, ...drafts[article.id] };
+                const busy = savingId === article.id;
+                const factCheck: FactCheckReport | null = article.factCheck ? JSON.parse(article.factCheck) : null;
+
+                return (
+                    <div key={article.id} className={styles.card}>
+                        <div className={styles.cardMeta}>
+                            <span className={styles.statusBadge}>{article.status.replace('_', ' ')}</span>
+                            {article.factCheckPassed === false && (
+                                <span className={styles.factBadge}>Fact check failed</span>
+                            )}
+                            <span>{article.category.name}</span>
+                            <span>{article.sourceName}</span>
+                            <span>{new Date(article.createdAt).toLocaleString()}</span>
+                            {article.sourceUrl && (
+                                <a href={article.sourceUrl} target="_blank" rel="noopener noreferrer">
+                                    <ExternalLink size={14} /> Original
+                                </a>
+                            )}
+                        </div>
+
+                        {article.aiError && (
+                            <div className={styles.factCheckFailed}>
+                                <h3>AI rewrite failed</h3>
+                                <p className={styles.aiError}>{article.aiError}</p>
+                            </div>
+                        )}
+
+                        {factCheck && <FactCheckDiff report={factCheck} />}
+
+                        <div className={styles.columns}>
+                            <div className={styles.column}>
+                                <h3>Original Feed Content</h3>
+                                <div className={styles.rawContent}>{article.rawContent || 'No raw content stored.'}</div>
+                            </div>
+
+                            <div className={styles.column}>
+                                <h3>{article.aiError ? 'Feed Text (write up by hand)' : 'AI Rewrite'}</h3>
+                                <input
+                                    type="text"
+                                    value={draft.title}
+                                    onChange={e => updateDraft(article.id, { title: e.target.value })}
+                                />
+                                <textarea
+                                    rows={3}
+                                    value={draft.excerpt || ''}
+                                    onChange={e => updateDraft(article.id, { excerpt: e.target.value })}
+                                />
+                                <textarea
+                                    rows={14}
+                                    value={draft.content}
+                                    onChange={e => updateDraft(article.id, { content: e.target.value })}
+                                />
+                                <input
+                                    type="text"
+                                    placeholder="Review note (optional)"
+                                    value={draft.reviewNote || ''}
+                                    onChange={e => updateDraft(article.id, { reviewNote: e.target.value })}
+                                />
+                            </div>
+                        </div>
+
+                        <div className={styles.actions}>
+                            <button className={styles.rejectBtn} disabled={busy} onClick={() => handleAction(article, 'reject')}>Reject</button>
+                            <button className={styles.saveBtn} disabled={busy} onClick={() => handleAction(article, 'edit')}>Save Edits</button>
+                            {article.status !== 'approved' && (
+                                <button className={styles.approveBtn} disabled={busy} onClick={() => handleAction(article, 'approve')}>Approve</button>
+                            )}
+                            <button className={styles.publishBtn} disabled={busy} onClick={() => handleAction(article, 'publish')}>Publish</button>
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
@@ -0,0 +1,147 @@
+import { NextResponse } from 'next/server';
+export const dynamic = 'force-dynamic';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { generateSlug } from '@/lib/articleUtils';
+import { ImageRejectedError, articleImageData, storeImageFromUrl } from '@/lib/imagePipeline';
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/admin/articles/[id] - Full article for the editor
+ */
+export async function GET(req: Request, { params }: RouteContext) {
+    try {
+        const session = await auth();
+        if (!session || (session.user as any).role !== 'ADMIN') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const article = await prisma.article.findUnique({
+            where: { id },
+            include: { category: true },
+        });
+
+        if (!article) {
+            return NextResponse.json({ message: 'Article not found' }, { status: 404 });
+        }
+
+        return NextResponse.json(article);
+    } catch (error) {
+        console.error('ADMIN_ARTICLE_GET_ERROR:', error);
+        return NextResponse.json({ message: 'Internal Server Error' }, { status: 500 });
+    }
+}
+
+/**
+ * PUT /api/admin/articles/[id] - Edit title, excerpt, content, image, slug, category or featured
+ */
+export async function PUT(req: Request, { params }: RouteContext) {
+    try {
+        const session = await auth();
+        if (!session || (session.user as any).role !== 'ADMIN') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const { title, excerpt, content, image, slug, categoryId, featured } = await req.json();
+
+        const current = await prisma.article.findUnique({ where: { id }, select: { image: true } });
+        if (!current) {
+            return NextResponse.json({ message: 'Article not found' }, { status: 404 });
+        }
+
+        if (title !== undefined && !String(title).trim()) {
+            return NextResponse.json({ message: 'Title cannot be empty' }, { status: 400 });
+        }
+        if (content !== undefined && !String(content).trim()) {
+            return NextResponse.json({ message: 'Content cannot be empty' }, { status: 400 });
+        }
+
+        if (categoryId && !await prisma.category.findUnique({ where: { id: categoryId }, select: { id: true } })) {
+            return NextResponse.json({ message: 'Category not found' }, { status: 400 });
+        }
+
+        let nextSlug: string | undefined;
+        if (slug !== undefined) {
+            nextSlug = generateSlug(slug);
+            if (!nextSlug) {
+                return NextResponse.json({ message: 'Invalid slug' }, { status: 400 });
+            }
+
+            const existing = await prisma.article.findUnique({ where: { slug: nextSlug } });
+            if (existing && existing.id !== id) {
+                return NextResponse.json({ message: 'Slug is already in use' }, { status: 409 });
+            }
+        }
+
+        // A new image URL goes through the image pipeline like ingested images
+        let imageData: ReturnType<typeof articleImageData> | undefined;
+        if (image !== undefined) {
+            if (!image) {
+                imageData = articleImageData(null);
+            } else if (image !== current.image) {
+                try {
+                    imageData = articleImageData(await storeImageFromUrl(String(image).trim()));
+                } catch (error) {
+                    if (error instanceof ImageRejectedError) {
+                        return NextResponse.json({ message: `Image rejected: ${error.message}` }, { status: 422 });
+                    }
+                    throw error;
+                }
+            }
+        }
+
+        const updated = await prisma.article.update({
+            where: { id },
+            data: {
+                title: title?.trim(),
+                excerpt: excerpt === undefined ? undefined : excerpt || null,
+                content,
+                ...imageData,
+                slug: nextSlug,
+                categoryId: categoryId || undefined,
+                featured: typeof featured === 'boolean' ? featured : undefined,
+                reviewedById: (session.user as any).id,
+                reviewedAt: new Date(),
+            },
+            include: { category: true },
+        });
+
+        return NextResponse.json(updated);
+    } catch (error) {
+        console.error('ADMIN_ARTICLE_PUT_ERROR:', error);
+        return NextResponse.json({ message: 'Internal Server Error' }, { status: 500 });
+    }
+}
+
+/**
+ * DELETE /api/admin/articles/[id] - Delete an article and its comments
+ */
+export async function DELETE(req: Request, { params }: RouteContext) {
+    try {
+        const session = await auth();
+        if (!session || (session.user as any).role !== 'ADMIN') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const article = await prisma.article.findUnique({ where: { id }, select: { id: true } });
+        if (!article) {
+            return NextResponse.json({ message: 'Article not found' }, { status: 404 });
+        }
+
+        await prisma.$transaction([
+            prisma.comment.deleteMany({ where: { articleId: id } }),
+            prisma.article.delete({ where: { id } }),
+        ]);
+
+        return NextResponse.json({ message: 'Deleted successfully' });
+    } catch (error) {
+        console.error('ADMIN_ARTICLE_DELETE_ERROR:', error);
+        return NextResponse.json({ message: 'Internal Server Error' }, { status: 500 });
+    }
+}
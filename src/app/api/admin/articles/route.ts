@@ -0,0 +1,178 @@
+import { NextResponse } from 'next/server';
+export const dynamic = 'force-dynamic';
+import { Prisma } from '@prisma/client';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { ARTICLE_STATUS, canTransition, isArticleStatus, statusData } from '@/lib/articleStatus';
+
+const BULK_ACTIONS = ['publish', 'unpublish', 'feature', 'unfeature', 'categorize', 'delete'];
+
+/**
+ * GET /api/admin/articles - Paginated article list with admin filters
+ * Query: source, category, aiRephrased, status, from, to, q, page, limit
+ */
+export async function GET(req: Request) {
+    try {
+        const session = await auth();
+        if (!session || (session.user as any).role !== 'ADMIN') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { searchParams } = new URL(req.url);
+        const source = searchParams.get('source');
+        const category = searchParams.get('category');
+        const aiRephrased = searchParams.get('aiRephrased');
+        const status = searchParams.get('status');
+        const from = searchParams.get('from');
+        const to = searchParams.get('to');
+        const q = searchParams.get('q');
+        const limit = Math.min(parseInt(searchParams.get('limit') || '25') || 25, 100);
+        const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1);
+
+        const where: Prisma.ArticleWhereInput = {};
+
+        if (source) where.sourceName = source;
+        if (category) where.category = { slug: category };
+        if (aiRephrased === 'true' || aiRephrased === 'false') where.aiRephrased = aiRephrased === 'true';
+        if (status && isArticleStatus(status)) where.status = status;
+        if (q) where.title = { contains: q, mode: 'insensitive' };
+        if (from || to) {
+            const fromDate = from ? new Date(from) : null;
+            const toDate = to ? new Date(`${to}T23:59:59.999Z`) : null;
+            if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+                return NextResponse.json({ message: 'Invalid date range, use YYYY-MM-DD' }, { status: 400 });
+            }
+            where.createdAt = {
+                ...(fromDate ? { gte: fromDate } : {}),
+                ...(toDate ? { lte: toDate } : {}),
+            };
+        }
+
+        const [articles, total, categories, sources] = await Promise.all([
+            prisma.article.findMany({
+                where,
+                select: {
+                    id: true,
+                    title: true,
+                    slug: true,
+                    excerpt: true,
+                    image: true,
+                    status: true,
+                    published: true,
+                    featured: true,
+                    aiRephrased: true,
+                    sourceName: true,
+                    country: true,
+                    createdAt: true,
+                    publishedAt: true,
+                    category: { select: { id: true, name: true, slug: true } },
+                },
+                orderBy: { createdAt: 'desc' },
+                take: limit,
+                skip: (page - 1) * limit,
+            }),
+            prisma.article.count({ where }),
+            prisma.category.findMany({ orderBy: { name: 'asc' } }),
+            prisma.article.findMany({
+                where: { sourceName: { not: null } },
+                distinct: ['sourceName'],
+                select: { sourceName: true },
+                orderBy: { sourceName: 'asc' },
+            }),
+        ]);
+
+        return NextResponse.json({
+            articles,
+            categories,
+            sourceNames: sources.map(s => s.sourceName),
+            pagination: {
+                total,
+                page,
+                limit,
+                totalPages: Math.ceil(total / limit),
+            },
+        });
+    } catch (error) {
+        console.error('ADMIN_ARTICLES_GET_ERROR:', error);
+        return NextResponse.json({ message: 'Internal Server Error' }, { status: 500 });
+    }
+}
+
+/**
+ * POST /api/admin/articles - Bulk actions on selected articles
+ * Body: { ids: string[], action, categoryId? }
+ * Articles whose status cannot move to published (e.g. rejected) are skipped by publish
+ */
+export async function POST(req: Request) {
+    try {
+        const session = await auth();
+        if (!session || (session.user as any).role !== 'ADMIN') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { ids, action, categoryId } = await req.json();
+
+        if (!Array.isArray(ids) || ids.length === 0 || !BULK_ACTIONS.includes(action)) {
+            return NextResponse.json({ message: 'Invalid bulk action' }, { status: 400 });
+        }
+
+        const where = { id: { in: ids as string[] } };
+        const reviewed = {
+            reviewedById: (session.user as any).id,
+            reviewedAt: new Date(),
+        };
+        let count = 0;
+        let skipped = 0;
+
+        switch (action) {
+            case 'publish': {
+                const publishable = Object.values(ARTICLE_STATUS).filter(status => canTransition(status, ARTICLE_STATUS.PUBLISHED));
+                ({ count } = await prisma.article.updateMany({
+                    where: { ...where, status: { in: publishable } },
+                    data: { ...statusData(ARTICLE_STATUS.PUBLISHED), ...reviewed },
+                }));
+                skipped = new Set(ids).size - count;
+                break;
+            }
+            case 'unpublish':
+                ({ count } = await prisma.article.updateMany({
+                    where: { ...where, published: true },
+                    data: { ...statusData(ARTICLE_STATUS.IN_REVIEW), ...reviewed },
+                }));
+                break;
+            case 'feature':
+            case 'unfeature':
+                ({ count } = await prisma.article.updateMany({
+                    where,
+                    data: { featured: action === 'feature' },
+                }));
+                break;
+            case 'categorize': {
+                const category = categoryId && await prisma.category.findUnique({ where: { id: categoryId } });
+                if (!category) {
+                    return NextResponse.json({ message: 'Category not found' }, { status: 400 });
+                }
+                ({ count } = await prisma.article.updateMany({
+                    where,
+                    data: { categoryId: category.id },
+                }));
+                break;
+            }
+            case 'delete':
+                // Comments reference articles without cascading deletes
+                [, { count }] = await prisma.$transaction([
+                    prisma.comment.deleteMany({ where: { articleId: { in: ids } } }),
+                    prisma.article.deleteMany({ where }),
+                ]);
+                break;
+        }
+
+        const message = skipped > 0
+            ? `${count} article(s) updated, ${skipped} skipped`
+            : `${count} article(s) updated`;
+        return NextResponse.json({ message, count, skipped });
+    } catch (error) {
+        console.error('ADMIN_ARTICLES_BULK_ERROR:', error);
+        return NextResponse.json({ message: 'Internal Server Error' }, { status: 500 });
+    }
+}
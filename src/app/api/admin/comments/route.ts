@@ -0,0 +1,135 @@
+import { NextResponse } from 'next/server';
+export const dynamic = 'force-dynamic';
+import { Prisma } from '@prisma/client';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+
+const MODERATION_ACTIONS = ['hide', 'unhide', 'delete', 'ban', 'unban'];
+
+/**
+ * GET /api/admin/comments - Paginated comments for moderation
+ * Query: visibility (visible | hidden), banned, q, page, limit
+ */
+export async function GET(req: Request) {
+    try {
+        const session = await auth();
+        if (!session || (session.user as any).role !== 'ADMIN') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { searchParams } = new URL(req.url);
+        const visibility = searchParams.get('visibility');
+        const banned = searchParams.get('banned');
+        const q = searchParams.get('q');
+        const limit = Math.min(parseInt(searchParams.get('limit') || '25') || 25, 100);
+        const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1);
+
+        const where: Prisma.CommentWhereInput = { deletedAt: null };
+
+        if (visibility === 'hidden') where.hidden = true;
+        if (visibility === 'visible') where.hidden = false;
+        if (banned === 'true') where.author = { commentBanned: true };
+        if (q) where.content = { contains: q, mode: 'insensitive' };
+
+        const [comments, total] = await Promise.all([
+            prisma.comment.findMany({
+                where,
+                select: {
+                    id: true,
+                    content: true,
+                    hidden: true,
+                    parentId: true,
+                    createdAt: true,
+                    editedAt: true,
+                    author: { select: { id: true, name: true, email: true, commentBanned: true } },
+                    article: { select: { title: true, slug: true } },
+                },
+                orderBy: { createdAt: 'desc' },
+                skip: (page - 1) * limit,
+                take: limit,
+            }),
+            prisma.comment.count({ where }),
+        ]);
+
+        return NextResponse.json({
+            comments,
+            pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+        });
+    } catch (error) {
+        console.error('ADMIN_COMMENTS_GET_ERROR:', error);
+        return NextResponse.json({ message: 'Internal Server Error' }, { status: 500 });
+    }
+}
+
+/**
+ * POST /api/admin/comments - Moderate a comment or its author
+ * Body: { id, action } where action is hide, unhide, delete, ban or unban
+ * ban/unban apply to the comment's author; ban also hides all of their visible comments,
+ * and unban shows exactly those again
+ */
+export async function POST(req: Request) {
+    try {
+        const session = await auth();
+        if (!session || (session.user as any).role !== 'ADMIN') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id, action } = await req.json();
+
+        if (!id || !MODERATION_ACTIONS.includes(action)) {
+            return NextResponse.json({ message: 'Invalid moderation action' }, { status: 400 });
+        }
+
+        const comment = await prisma.comment.findUnique({
+            where: { id },
+            select: { id: true, authorId: true },
+        });
+        if (!comment) {
+            return NextResponse.json({ message: 'Comment not found' }, { status: 404 });
+        }
+
+        switch (action) {
+            case 'hide':
+            case 'unhide':
+                // A moderator's decision outlasts the ban, so unbanning leaves it alone
+                await prisma.comment.update({
+                    where: { id },
+                    data: { hidden: action === 'hide', banHidden: false },
+                });
+                break;
+            case 'delete':
+                // Replies cascade with their parent
+                await prisma.comment.delete({ where: { id } });
+                break;
+            case 'ban':
+                await prisma.$transaction([
+                    prisma.user.update({
+                        where: { id: comment.authorId },
+                        data: { commentBanned: true },
+                    }),
+                    prisma.comment.updateMany({
+                        where: { authorId: comment.authorId, hidden: false },
+                        data: { hidden: true, banHidden: true },
+                    }),
+                ]);
+                break;
+            case 'unban':
+                await prisma.$transaction([
+                    prisma.user.update({
+                        where: { id: comment.authorId },
+                        data: { commentBanned: false },
+                    }),
+                    prisma.comment.updateMany({
+                        where: { authorId: comment.authorId, banHidden: true },
+                        data: { hidden: false, banHidden: false },
+                    }),
+                ]);
+                break;
+        }
+
+        return NextResponse.json({ message: `Comment ${action} applied` });
+    } catch (error) {
+        console.error('ADMIN_COMMENTS_POST_ERROR:', error);
+        return NextResponse.json({ message: 'Internal Server Error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+export const dynamic = 'force-dynamic';
+import { auth } from '@/lib/auth';
+import { getLlmCacheStats, purgeLlmCache } from '@/lib/llmCache';
+import { isPromptName } from '@/lib/promptTemplates';
+
+/**
+ * GET /api/admin/llm-cache - Cache entries by task and daily hit/miss counts
+ * Query: days (default 7, max 90)
+ */
+export async function GET(req: Request) {
+    try {
+        const session = await auth();
+        if (!session || (session.user as any).role !== 'ADMIN') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { searchParams } = new URL(req.url);
+        const days = Math.min(Math.max(parseInt(searchParams.get('days') || '7') || 7, 1), 90);
+
+        return NextResponse.json({ days, ...(await getLlmCacheStats(days)) });
+    } catch (error) {
+        console.error('ADMIN_LLM_CACHE_GET_ERROR:', error);
+        return NextResponse.json({ message: 'Internal Server Error' }, { status: 500 });
+    }
+}
+
+/**
+ * DELETE /api/admin/llm-cache - Purge cached LLM results
+ * Body: { task?: 'rephrase' | 'classify', expiredOnly?: boolean }
+ */
+export async function DELETE(req: Request) {
+    try {
+        const session = await auth();
+        if (!session || (session.user as any).role !== 'ADMIN') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { task, expiredOnly } = await req.json().catch(() => ({}));
+        if (task !== undefined && (typeof task !== 'string' || !isPromptName(task))) {
+            return NextResponse.json({ message: 'Unknown task' }, { status: 400 });
+        }
+
+        const deleted = await purgeLlmCache({ task, expiredOnly: expiredOnly === true });
+        return NextResponse.json({ message: `Purged ${deleted} cached results`, deleted });
+    } catch (error) {
+        console.error('ADMIN_LLM_CACHE_DELETE_ERROR:', error);
+        return NextResponse.json({ message: 'Internal Server Error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,103 @@
+import { NextResponse } from 'next/server';
+export const dynamic = 'force-dynamic';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getLlmBudgetStatus, getLlmBudgets } from '@/lib/llmUsage';
+
+interface DailyUsageRow {
+    day: Date;
+    calls: bigint;
+    inputTokens: bigint | null;
+    outputTokens: bigint | null;
+    costUsd: number | null;
+}
+
+/**
+ * GET /api/admin/llm-usage - LLM calls, tokens and cost by day, source, category and country
+ * Query: days (default 7, max 90)
+ */
+export async function GET(req: Request) {
+    try {
+        const session = await auth();
+        if (!session || (session.user as any).role !== 'ADMIN') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { searchParams } = new URL(req.url);
+        const days = Math.min(Math.max(parseInt(searchParams.get('days') || '7') || 7, 1), 90);
+        const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+        const where = { createdAt: { gte: since } };
+        const sums = { costUsd: true, inputTokens: true, outputTokens: true } as const;
+
+        const [bySource, byCategory, byCountry, byOutcome, daily] = await Promise.all([
+            prisma.llmCall.groupBy({ by: ['sourceId'], where, _sum: sums, _count: { _all: true } }),
+            prisma.llmCall.groupBy({ by: ['categorySlug'], where, _sum: sums, _count: { _all: true } }),
+            prisma.llmCall.groupBy({ by: ['country'], where, _sum: sums, _count: { _all: true } }),
+            prisma.llmCall.groupBy({ by: ['outcome'], where, _count: { _all: true } }),
+            prisma.$queryRaw<DailyUsageRow[]>`
+                SELECT date_trunc('day', "createdAt") AS "day",
+                       COUNT(*) AS "calls",
+                       SUM("inputTokens") AS "inputTokens",
+                       SUM("outputTokens") AS "outputTokens",
+                       SUM("costUsd") AS "costUsd"
+                FROM "LlmCall"
+                WHERE "createdAt" >= ${since}
+                GROUP BY 1
+                ORDER BY 1 DESC
+            `,
+        ]);
+
+        const sources = await prisma.newsSource.findMany({
+            where: { id: { in: bySource.map(s => s.sourceId).filter((id): id is string => !!id) } },
+            select: { id: true, name: true, country: true, category: true },
+        });
+        const sourcesById = new Map(sources.map(s => [s.id, s]));
+
+        const toRow = (row: { _sum: { costUsd: number | null; inputTokens: number | null; outputTokens: number | null }; _count: { _all: number } }) => ({
+            calls: row._count._all,
+            inputTokens: row._sum.inputTokens || 0,
+            outputTokens: row._sum.outputTokens || 0,
+            costUsd: row._sum.costUsd || 0,
+        });
+        const byCost = (a: { costUsd: number }, b: { costUsd: number }) => b.costUsd - a.costUsd;
+
+        const budgets = getLlmBudgets();
+        const [globalBudget, ...countryBudgets] = await Promise.all([
+            getLlmBudgetStatus(),
+            ...Object.keys(budgets.countryDailyUsd).map(country => getLlmBudgetStatus(country)),
+        ]);
+
+        return NextResponse.json({
+            days,
+            outcomes: Object.fromEntries(byOutcome.map(o => [o.outcome, o._count._all])),
+            daily: daily.map(d => ({
+                day: d.day,
+                calls: Number(d.calls),
+                inputTokens: Number(d.inputTokens || 0),
+                outputTokens: Number(d.outputTokens || 0),
+                costUsd: d.costUsd || 0,
+            })),
+            bySource: bySource.map(s => {
+                const source = s.sourceId ? sourcesById.get(s.sourceId) : undefined;
+                return {
+                    sourceId: s.sourceId,
+                    // Calls without a source come from the admin prompt preview
+                    name: source?.name || (s.sourceId ? 'Deleted source' : 'Admin / other'),
+                    country: source?.country || null,
+                    category: source?.category || null,
+                    ...toRow(s),
+                };
+            }).sort(byCost),
+            byCategory: byCategory.map(c => ({ category: c.categorySlug, ...toRow(c) })).sort(byCost),
+            byCountry: byCountry.map(c => ({ country: c.country, ...toRow(c) })).sort(byCost),
+            budget: {
+                degradeAt: budgets.degradeAt,
+                global: globalBudget,
+                countries: countryBudgets,
+            },
+        });
+    } catch (error) {
+        console.error('ADMIN_LLM_USAGE_GET_ERROR:', error);
+        return NextResponse.json({ message: 'Internal Server Error' }, { status: 500 });
+    }
+}
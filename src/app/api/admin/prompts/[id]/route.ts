@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+export const dynamic = 'force-dynamic';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH /api/admin/prompts/[id] - Activate or deactivate a prompt version
+ * Body: { active }. Activating deactivates the other versions for the same name and category;
+ * with no active version the prompt falls back to the default, then the built-in prompt
+ */
+export async function PATCH(req: Request, { params }: RouteContext) {
+    try {
+        const session = await auth();
+        if (!session || (session.user as any).role !== 'ADMIN') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const { active } = await req.json();
+
+        const template = await prisma.promptTemplate.findUnique({ where: { id } });
+        if (!template) {
+            return NextResponse.json({ message: 'Prompt template not found' }, { status: 404 });
+        }
+
+        const updated = await prisma.$transaction(async (tx) => {
+            if (active) {
+                await tx.promptTemplate.updateMany({
+                    where: { name: template.name, categorySlug: template.categorySlug, active: true },
+                    data: { active: false },
+                });
+            }
+            return tx.promptTemplate.update({
+                where: { id },
+                data: { active: !!active },
+            });
+        });
+
+        return NextResponse.json(updated);
+    } catch (error) {
+        console.error('ADMIN_PROMPT_PATCH_ERROR:', error);
+        return NextResponse.json({ message: 'Internal Server Error' }, { status: 500 });
+    }
+}
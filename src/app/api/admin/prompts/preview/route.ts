@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+export const dynamic = 'force-dynamic';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { findUnknownVariables, isPromptName, parsePromptSettings, previewPrompt } from '@/lib/promptTemplates';
+
+/**
+ * POST /api/admin/prompts/preview - Run an unsaved template against a sample article
+ * Body: { name, body, categorySlug?, temperature?, topP?, maxOutputTokens?, articleId?, title?, content? }
+ * The sample is an article's stored rawContent (by id or slug) or pasted title and content
+ */
+export async function POST(req: Request) {
+    try {
+        const session = await auth();
+        if (!session || (session.user as any).role !== 'ADMIN') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { name, body, categorySlug, articleId, title, content, ...rawSettings } = await req.json();
+
+        if (!name || !isPromptName(name)) {
+            return NextResponse.json({ message: 'Unknown prompt name' }, { status: 400 });
+        }
+        if (!body || !String(body).trim()) {
+            return NextResponse.json({ message: 'Prompt body cannot be empty' }, { status: 400 });
+        }
+
+        const unknown = findUnknownVariables(name, body);
+        if (unknown.length > 0) {
+            return NextResponse.json(
+                { message: `Unknown variables: ${unknown.map(v => `{{${v}}}`).join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        const { settings, error } = parsePromptSettings(rawSettings);
+        if (error) {
+            return NextResponse.json({ message: error }, { status: 400 });
+        }
+
+        let sample = { title: title || '', content: content || '', category: categorySlug || 'news' };
+        if (articleId) {
+            const article = await prisma.article.findFirst({
+                where: { OR: [{ id: articleId }, { slug: articleId }] },
+                select: { title: true, rawContent: true, content: true, category: { select: { slug: true } } },
+            });
+            if (!article) {
+                return NextResponse.json({ message: 'Sample article not found' }, { status: 404 });
+            }
+            sample = {
+                title: title || article.title,
+                content: article.rawContent || article.content,
+                category: categorySlug || article.category.slug,
+            };
+        }
+
+        if (!sample.content.trim()) {
+            return NextResponse.json({ message: 'Provide a sample article or content' }, { status: 400 });
+        }
+
+        try {
+            const result = await previewPrompt({ name, body, ...settings }, sample);
+            return NextResponse.json(result);
+        } catch (llmError) {
+            return NextResponse.json({ message: `LLM request failed: ${(llmError as Error).message}` }, { status: 502 });
+        }
+    } catch (error) {
+        console.error('ADMIN_PROMPT_PREVIEW_ERROR:', error);
+        return NextResponse.json({ message: 'Internal Server Error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,121 @@
+import { NextResponse } from 'next/server';
+export const dynamic = 'force-dynamic';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import {
+    BUILT_IN_PROMPTS,
+    PROMPT_VARIABLES,
+    findUnknownVariables,
+    isPromptName,
+    parsePromptSettings,
+} from '@/lib/promptTemplates';
+
+/**
+ * GET /api/admin/prompts - Every prompt template version, with the built-in prompts and their variables
+ */
+export async function GET() {
+    try {
+        const session = await auth();
+        if (!session || (session.user as any).role !== 'ADMIN') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+
+        const [templates, categories] = await Promise.all([
+            prisma.promptTemplate.findMany({
+                include: { _count: { select: { articles: true } } },
+                orderBy: [{ name: 'asc' }, { categorySlug: 'asc' }, { version: 'desc' }],
+            }),
+            prisma.category.findMany({ select: { name: true, slug: true }, orderBy: { name: 'asc' } }),
+        ]);
+
+        return NextResponse.json({
+            templates,
+            categories,
+            builtIn: BUILT_IN_PROMPTS,
+            variables: PROMPT_VARIABLES,
+        });
+    } catch (error) {
+        console.error('ADMIN_PROMPTS_GET_ERROR:', error);
+        return NextResponse.json({ message: 'Internal Server Error' }, { status: 500 });
+    }
+}
+
+/**
+ * POST /api/admin/prompts - Save a new version of a prompt
+ * Body: { name, categorySlug?, body, temperature?, topP?, maxOutputTokens?, note?, activate? }
+ */
+export async function POST(req: Request) {
+    try {
+        const session = await auth();
+        if (!session || (session.user as any).role !== 'ADMIN') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { name, categorySlug, body, note, activate, ...rawSettings } = await req.json();
+
+        if (!name || !isPromptName(name)) {
+            return NextResponse.json({ message: 'Unknown prompt name' }, { status: 400 });
+        }
+        if (!body || !String(body).trim()) {
+            return NextResponse.json({ message: 'Prompt body cannot be empty' }, { status: 400 });
+        }
+
+        const unknown = findUnknownVariables(name, body);
+        if (unknown.length > 0) {
+            return NextResponse.json(
+                { message: `Unknown variables: ${unknown.map(v => `{{${v}}}`).join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        const { settings, error } = parsePromptSettings(rawSettings);
+        if (error) {
+            return NextResponse.json({ message: error }, { status: 400 });
+        }
+
+        const scope: string | null = categorySlug || null;
+        if (scope) {
+            // Classification runs before an article has a category, so it cannot be overridden per category
+            if (name === 'classify') {
+                return NextResponse.json({ message: 'The classify prompt has no per-category overrides' }, { status: 400 });
+            }
+            const category = await prisma.category.findUnique({ where: { slug: scope } });
+            if (!category) {
+                return NextResponse.json({ message: 'Category not found' }, { status: 400 });
+            }
+        }
+
+        const template = await prisma.$transaction(async (tx) => {
+            const latest = await tx.promptTemplate.findFirst({
+                where: { name, categorySlug: scope },
+                orderBy: { version: 'desc' },
+                select: { version: true },
+            });
+
+            if (activate) {
+                await tx.promptTemplate.updateMany({
+                    where: { name, categorySlug: scope, active: true },
+                    data: { active: false },
+                });
+            }
+
+            return tx.promptTemplate.create({
+                data: {
+                    name,
+                    categorySlug: scope,
+                    version: (latest?.version || 0) + 1,
+                    body,
+                    ...settings,
+                    active: !!activate,
+                    note: note || null,
+                    createdById: (session.user as any).id,
+                },
+            });
+        });
+
+        return NextResponse.json(template, { status: 201 });
+    } catch (error) {
+        console.error('ADMIN_PROMPTS_POST_ERROR:', error);
+        return NextResponse.json({ message: 'Internal Server Error' }, { status: 500 });
+    }
+}
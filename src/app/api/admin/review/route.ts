@@ -0,0 +1,109 @@
+import { NextResponse } from 'next/server';
+export const dynamic = 'force-dynamic';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import {
+    ARTICLE_STATUS,
+    ArticleStatus,
+    REVIEW_QUEUE_STATUSES,
+    canTransition,
+    isArticleStatus,
+    statusData,
+} from '@/lib/articleStatus';
+
+// Review actions and the status each one moves the article to
+const ACTION_STATUS: Record<string, ArticleStatus | null> = {
+    approve: ARTICLE_STATUS.APPROVED,
+    publish: ARTICLE_STATUS.PUBLISHED,
+    reject: ARTICLE_STATUS.REJECTED,
+    edit: null, // Save changes without moving the article
+};
+
+/**
+ * GET /api/admin/review - Articles waiting in the review queue
+ */
+export async function GET(req: Request) {
+    try {
+        const session = await auth();
+        if (!session || (session.user as any).role !== 'ADMIN') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { searchParams } = new URL(req.url);
+        const statusParam = searchParams.get('status');
+        const statuses = statusParam && isArticleStatus(statusParam) ? [statusParam] : REVIEW_QUEUE_STATUSES;
+
+        const articles = await prisma.article.findMany({
+            where: { status: { in: statuses } },
+            include: {
+                category: { select: { name: true, slug: true } },
+            },
+            orderBy: { createdAt: 'asc' },
+            take: 50,
+        });
+
+        const counts = await prisma.article.groupBy({
+            by: ['status'],
+            where: { status: { in: REVIEW_QUEUE_STATUSES } },
+            _count: { status: true },
+        });
+
+        return NextResponse.json({
+            articles,
+            counts: Object.fromEntries(counts.map(c => [c.status, c._count.status])),
+        });
+    } catch (error) {
+        console.error('ADMIN_REVIEW_GET_ERROR:', error);
+        return NextResponse.json({ message: 'Internal Server Error' }, { status: 500 });
+    }
+}
+
+/**
+ * POST /api/admin/review - Approve, publish, reject or edit an article
+ * Body: { id, action, title?, excerpt?, content?, note? }
+ */
+export async function POST(req: Request) {
+    try {
+        const session = await auth();
+        if (!session || (session.user as any).role !== 'ADMIN') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id, action, title, excerpt, content, note } = await req.json();
+
+        if (!id || !(action in ACTION_STATUS)) {
+            return NextResponse.json({ message: 'Invalid review action' }, { status: 400 });
+        }
+
+        const article = await prisma.article.findUnique({ where: { id } });
+        if (!article) {
+            return NextResponse.json({ message: 'Article not found' }, { status: 404 });
+        }
+
+        const nextStatus = ACTION_STATUS[action];
+        if (nextStatus && !canTransition(article.status, nextStatus)) {
+            return NextResponse.json(
+                { message: `Cannot ${action} an article that is ${article.status}` },
+                { status: 409 }
+            );
+        }
+
+        const updated = await prisma.article.update({
+            where: { id },
+            data: {
+                ...(nextStatus ? statusData(nextStatus) : {}),
+                title: title || undefined,
+                excerpt: excerpt ?? undefined,
+                content: content || undefined,
+                reviewNote: note ?? undefined,
+                reviewedById: (session.user as any).id,
+                reviewedAt: new Date(),
+            },
+        });
+
+        return NextResponse.json(updated);
+    } catch (error) {
+        console.error('ADMIN_REVIEW_POST_ERROR:', error);
+        return NextResponse.json({ message: 'Internal Server Error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+export const dynamic = 'force-dynamic';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getFeedCheckHistory } from '@/lib/feedHealth';
+import { fetchSourceFeed } from '@/lib/rssParser';
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/admin/sources/[id]/health - A source's health and its recent fetch attempts
+ */
+export async function GET(req: Request, { params }: RouteContext) {
+    try {
+        const session = await auth();
+        if (!session || (session.user as any).role !== 'ADMIN') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const source = await prisma.newsSource.findUnique({ where: { id } });
+        if (!source) {
+            return NextResponse.json({ message: 'Source not found' }, { status: 404 });
+        }
+
+        const checks = await getFeedCheckHistory(id);
+        return NextResponse.json({ source, checks });
+    } catch (error) {
+        console.error('ADMIN_SOURCE_HEALTH_GET_ERROR:', error);
+        return NextResponse.json({ message: 'Internal Server Error' }, { status: 500 });
+    }
+}
+
+/**
+ * POST /api/admin/sources/[id]/health - Probe the feed now, even if quarantined
+ * A successful probe releases the source from quarantine
+ */
+export async function POST(req: Request, { params }: RouteContext) {
+    try {
+        const session = await auth();
+        if (!session || (session.user as any).role !== 'ADMIN') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const source = await prisma.newsSource.findUnique({ where: { id } });
+        if (!source) {
+            return NextResponse.json({ message: 'Source not found' }, { status: 404 });
+        }
+
+        let probe: { ok: boolean; itemCount?: number; error?: string };
+        try {
+            // Unconditional, so the probe always reports the current item count.
+            // Its validators are not saved: its items are not ingested, and the next run must see them
+            const { feed } = await fetchSourceFeed(source, { conditional: false });
+            probe = { ok: true, itemCount: feed?.items.length ?? 0 };
+        } catch (error) {
+            probe = { ok: false, error: (error as Error).message };
+        }
+
+        const [updated, checks] = await Promise.all([
+            prisma.newsSource.findUnique({ where: { id } }),
+            getFeedCheckHistory(id),
+        ]);
+        return NextResponse.json({ probe, source: updated, checks });
+    } catch (error) {
+        console.error('ADMIN_SOURCE_HEALTH_POST_ERROR:', error);
+        return NextResponse.json({ message: 'Internal Server Error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+export const dynamic = 'force-dynamic';
+import { auth } from '@/lib/auth';
+import { discoverFeeds } from '@/lib/feedDiscovery';
+
+/**
+ * POST /api/admin/sources/discover - Find RSS, Atom and JSON feeds for a website
+ * Body: { url }. Returns { feeds } with the feeds that parse, advertised ones first
+ */
+export async function POST(req: Request) {
+    try {
+        const session = await auth();
+        if (!session || (session.user as any).role !== 'ADMIN') {
+            return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { url } = await req.json();
+        if (!url || typeof url !== 'string') {
+            return NextResponse.json({ message: 'Website URL is required' }, { status: 400 });
+        }
+
+        try {
+            const feeds = await discoverFeeds(url);
+            return NextResponse.json({ feeds });
+        } catch (error) {
+            // Bad input or an unreachable site, not a server fault
+            return NextResponse.json({ message: (error as Error).message }, { status: 422 });
+        }
+    } catch (error) {
+        console.error('ADMIN_SOURCE_DISCOVER_ERROR:', error);
+        return NextResponse.json({ message: 'Internal Server Error' }, { status: 500 });
+    }
+}
@@ -4,6 +4,7 @@ export const revalidate = 0;
 export const fetchCache = 'force-no-store';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { REVIEW_QUEUE_STATUSES } from '@/lib/articleStatus';
 
 export async function GET() {
     try {
@@ -23,8 +24,21 @@ export async function GET() {
         const usersCount = await prisma.user.count();
         const articlesCount = await prisma.article.count();
         const commentsCount = await prisma.comment.count();
-        const subscribersCount = await prisma.newsletter.count();
+        const subscribersCount = await prisma.newsletter.count({
+            where: { confirmedAt: { not: null }, unsubscribedAt: null }
+        });
+        const reviewCount = await prisma.article.count({
+            where: { status: { in: REVIEW_QUEUE_STATUSES } }
+        });
         const newsletter = await prisma.newsletter.findMany({
+            select: {
+                id: true,
+                email: true,
+                createdAt: true,
+                confirmedAt: true,
+                unsubscribedAt: true,
+                frequency: true,
+            },
             orderBy: { createdAt: 'desc' }
         });
 
@@ -36,7 +50,8 @@ export async function GET() {
                 users: usersCount,
                 articles: articlesCount,
                 comments: commentsCount,
-                subscribers: subscribersCount
+                subscribers: subscribersCount,
+                inReview: reviewCount
             }
         });
     } catch (error) {
@@ -52,17 +67,31 @@ export async function POST(req: Request) {
             return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
         }
 
-        const { id, country, name, category, url, active } = await req.json();
+        const { id, country, name, category, url, active, autoPublish, extractFullText } = await req.json();
 
         if (id) {
+            const existing = await prisma.newsSource.findUnique({ where: { id }, select: { url: true } });
+            // A new URL starts with a clean health record and no conditional-fetch validators
+            const healthReset = existing && url && existing.url !== url
+                ? {
+                    health: 'healthy',
+                    consecutiveFailures: 0,
+                    quarantinedAt: null,
+                    nextProbeAt: null,
+                    etag: null,
+                    lastModified: null,
+                    lastFeedBytes: null,
+                }
+                : {};
+
             const updated = await prisma.newsSource.update({
                 where: { id },
-                data: { country, name, category, url, active }
+                data: { country, name, category, url, active, autoPublish, extractFullText, ...healthReset }
             });
             return NextResponse.json(updated);
         } else {
             const created = await prisma.newsSource.create({
-                data: { country, name, category, url, active }
+                data: { country, name, category, url, active, autoPublish, extractFullText }
             });
             return NextResponse.json(created);
         }
@@ -111,6 +111,7 @@ export async function POST(request: NextRequest) {
         id: s.id,
         name: s.name,
         category: s.category,
+        country: s.country,
       })),
       systemAuthor.id,
       limit
@@ -131,6 +132,8 @@ export async function POST(request: NextRequest) {
           stored: result.totalStored,
           skipped: result.totalSkipped,
           sourcesProcessed: newsSources.length,
+          notModified: result.notModified,
+          bytesSaved: result.bytesSaved,
           sourceResults: result.sourceResults,
           filters: { country, category, sourceIds, limit },
         }),
@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getArticleComments, toPublicComment, validateCommentContent } from '@/lib/comments';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ slug: string }>;
+}
+
+/**
+ * GET /api/articles/[slug]/comments - Threaded comments for a published article
+ * Query: page, limit
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { slug } = await params;
+    const { searchParams } = new URL(request.url);
+
+    const article = await prisma.article.findUnique({
+      where: { slug, published: true },
+      select: { id: true },
+    });
+
+    if (!article) {
+      return NextResponse.json(
+        { success: false, error: 'Article not found' },
+        { status: 404 }
+      );
+    }
+
+    const { comments, pagination } = await getArticleComments(
+      article.id,
+      parseInt(searchParams.get('page') || '1') || 1,
+      parseInt(searchParams.get('limit') || '20') || 20
+    );
+
+    return NextResponse.json({
+      success: true,
+      comments,
+      pagination,
+    });
+
+  } catch (error) {
+    console.error('Error fetching comments:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch comments',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/articles/[slug]/comments - Add a comment or reply
+ * Body: content, parentId?
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth();
+    const userId = session?.user?.id as string | undefined;
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Sign in to comment' },
+        { status: 401 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { commentBanned: true },
+    });
+
+    if (!user || user.commentBanned) {
+      return NextResponse.json(
+        { success: false, error: 'You are not allowed to comment' },
+        { status: 403 }
+      );
+    }
+
+    const { slug } = await params;
+    const body = await request.json();
+
+    const validated = validateCommentContent(body.content);
+    if ('error' in validated) {
+      return NextResponse.json(
+        { success: false, error: validated.error },
+        { status: 400 }
+      );
+    }
+
+    const article = await prisma.article.findUnique({
+      where: { slug, published: true },
+      select: { id: true },
+    });
+
+    if (!article) {
+      return NextResponse.json(
+        { success: false, error: 'Article not found' },
+        { status: 404 }
+      );
+    }
+
+    // Replies to replies attach to the top-level comment of the thread
+    let parentId: string | null = null;
+    if (body.parentId) {
+      const parent = await prisma.comment.findUnique({
+        where: { id: body.parentId },
+        select: { id: true, articleId: true, parentId: true, hidden: true },
+      });
+
+      if (!parent || parent.articleId !== article.id || parent.hidden) {
+        return NextResponse.json(
+          { success: false, error: 'Parent comment not found' },
+          { status: 404 }
+        );
+      }
+      parentId = parent.parentId || parent.id;
+    }
+
+    const comment = await prisma.comment.create({
+      data: {
+        content: validated.content,
+        articleId: article.id,
+        authorId: userId,
+        parentId,
+      },
+      select: {
+        id: true,
+        content: true,
+        parentId: true,
+        createdAt: true,
+        editedAt: true,
+        deletedAt: true,
+        author: { select: { id: true, name: true, image: true } },
+      },
+    });
+
+    return NextResponse.json(
+      { success: true, comment: toPublicComment(comment) },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    console.error('Error creating comment:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to create comment',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRelatedArticles, MAX_RELATED_ARTICLES } from '@/lib/relatedArticles';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ slug: string }>;
+}
+
+/**
+ * GET /api/articles/[slug]/related - Related published articles, best match first
+ * Query: limit (default 4, max 12)
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { slug } = await params;
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '4') || 4, MAX_RELATED_ARTICLES);
+
+    const articles = await getRelatedArticles(slug, limit);
+    if (!articles) {
+      return NextResponse.json(
+        { success: false, error: 'Article not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, articles },
+      { headers: { 'Cache-Control': 'public, s-maxage=600, stale-while-revalidate=3600' } }
+    );
+  } catch (error) {
+    console.error('Error fetching related articles:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch related articles', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
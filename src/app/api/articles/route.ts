@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { RESPONSIVE_IMAGE_SELECT, responsiveImage } from '@/lib/imagePipeline';
 
 export const dynamic = 'force-dynamic';
 
+// Below this many matching articles a country falls back to global content
+const MIN_COUNTRY_ARTICLES = 6;
+
 /**
  * GET /api/articles - Fetch blog articles from database
  */
@@ -13,6 +17,7 @@ export async function GET(request: NextRequest) {
     const limitParam = searchParams.get('limit');
     const offsetParam = searchParams.get('offset');
     const featuredParam = searchParams.get('featured');
+    const countryParam = searchParams.get('country');
 
     const limit = Math.min(parseInt(limitParam || '50'), 100);
     const offset = parseInt(offsetParam || '0');
@@ -33,12 +38,25 @@ export async function GET(request: NextRequest) {
       where.featured = true;
     }
 
+    // Scope to the reader's country when it has enough articles of its own
+    let countryApplied = false;
+    if (countryParam) {
+      const countryCount = await prisma.article.count({
+        where: { ...where, country: countryParam },
+      });
+      if (countryCount >= MIN_COUNTRY_ARTICLES) {
+        where.country = countryParam;
+        countryApplied = true;
+      }
+    }
+
     // Fetch articles
     const articles = await prisma.article.findMany({
       where,
       include: {
         category: true,
         author: true,
+        imageAsset: { select: RESPONSIVE_IMAGE_SELECT },
       },
       orderBy: { createdAt: 'desc' },
       take: limit,
@@ -80,6 +98,7 @@ export async function GET(request: NextRequest) {
         content: article.content,
         excerpt: article.excerpt,
         image: article.image,
+        imageSet: article.imageAsset ? responsiveImage(article.imageAsset) : undefined,
         category: article.category.name,
         categorySlug: article.category.slug,
         featured: article.featured,
@@ -87,6 +106,7 @@ export async function GET(request: NextRequest) {
         authorImage: article.author.image,
         sourceName: article.sourceName,
         sourceUrl: article.sourceUrl,
+        country: article.country,
         readTime,
         createdAt: article.createdAt,
         updatedAt: article.updatedAt,
@@ -102,6 +122,10 @@ export async function GET(request: NextRequest) {
         offset,
         hasMore: offset + limit < totalCount,
       },
+      country: {
+        requested: countryParam,
+        applied: countryApplied,
+      },
     });
 
   } catch (error: any) {
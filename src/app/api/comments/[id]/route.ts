@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { deleteCommentByAuthor, toPublicComment, validateCommentContent } from '@/lib/comments';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Load a comment and check that the signed-in user wrote it
+ */
+async function findOwnComment(id: string) {
+  const session = await auth();
+  const userId = session?.user?.id as string | undefined;
+
+  if (!userId) {
+    return { error: 'Unauthorized', status: 401 } as const;
+  }
+
+  const comment = await prisma.comment.findUnique({
+    where: { id },
+    select: { id: true, authorId: true, deletedAt: true, author: { select: { commentBanned: true } } },
+  });
+
+  if (!comment || comment.deletedAt) {
+    return { error: 'Comment not found', status: 404 } as const;
+  }
+  if (comment.authorId !== userId) {
+    return { error: 'You can only change your own comments', status: 403 } as const;
+  }
+  if (comment.author.commentBanned) {
+    return { error: 'You are not allowed to comment', status: 403 } as const;
+  }
+
+  return { comment };
+}
+
+/**
+ * PATCH /api/comments/[id] - Edit your own comment
+ * Body: content
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const found = await findOwnComment(id);
+
+    if ('error' in found) {
+      return NextResponse.json(
+        { success: false, error: found.error },
+        { status: found.status }
+      );
+    }
+
+    const body = await request.json();
+    const validated = validateCommentContent(body.content);
+    if ('error' in validated) {
+      return NextResponse.json(
+        { success: false, error: validated.error },
+        { status: 400 }
+      );
+    }
+
+    const comment = await prisma.comment.update({
+      where: { id },
+      data: { content: validated.content, editedAt: new Date() },
+      select: {
+        id: true,
+        content: true,
+        parentId: true,
+        createdAt: true,
+        editedAt: true,
+        deletedAt: true,
+        author: { select: { id: true, name: true, image: true } },
+      },
+    });
+
+    return NextResponse.json({ success: true, comment: toPublicComment(comment) });
+
+  } catch (error) {
+    console.error('Error updating comment:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update comment',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/comments/[id] - Delete your own comment
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const found = await findOwnComment(id);
+
+    if ('error' in found) {
+      return NextResponse.json(
+        { success: false, error: found.error },
+        { status: found.status }
+      );
+    }
+
+    await deleteCommentByAuthor(id);
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Error deleting comment:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to delete comment',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,16 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { fetchAndStoreMultipleSources } from '@/lib/rssParser';
-
-// Maximum execution time for Vercel serverless functions (5 minutes for Pro tier)
-export const maxDuration = 300;
+import { enqueueSourceFetches } from '@/lib/ingestionJobs';
+import { dueForFetchWhere } from '@/lib/feedHealth';
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic';
 
 /**
- * Scheduled cron job to fetch RSS feeds and create blog posts
- * Runs every 12 hours via Vercel Cron
+ * Scheduled cron job that queues RSS ingestion
+ * Runs every 6 hours via Vercel Cron; the jobs are drained by /api/cron/process-jobs
  */
 export async function GET(request: NextRequest) {
   const startTime = Date.now();
@@ -64,9 +62,9 @@ export async function GET(request: NextRequest) {
       });
     }
 
-    // Fetch all active news sources
+    // Fetch all active news sources, leaving out quarantined ones until their next probe
     const newsSources = await prisma.newsSource.findMany({
-      where: { active: true },
+      where: { active: true, ...dueForFetchWhere() },
       orderBy: [{ country: 'asc' }, { category: 'asc' }],
     });
 
@@ -92,83 +90,57 @@ export async function GET(request: NextRequest) {
       });
     }
 
-    // Configure article limits based on tier
-    const TIER_1_COUNTRIES = ['UNITED_STATES', 'UNITED_KINGDOM', 'INDIA'];
-    const TIER_2_COUNTRIES = ['CANADA', 'AUSTRALIA', 'GERMANY', 'FRANCE', 'JAPAN', 'SINGAPORE'];
-
-    const getArticleLimit = (country: string): number => {
-      if (TIER_1_COUNTRIES.includes(country)) return 15;
-      if (TIER_2_COUNTRIES.includes(country)) return 10;
-      return 5; // Tier 3
-    };
-
-    // Group sources by country for tiered processing
-    const sourcesByCountry = newsSources.reduce((acc, source) => {
-      if (!acc[source.country]) {
-        acc[source.country] = [];
-      }
-      acc[source.country].push(source);
-      return acc;
-    }, {} as Record<string, typeof newsSources>);
-
-    // Process sources with appropriate limits
-    const sourcesToProcess = Object.entries(sourcesByCountry).flatMap(([country, sources]) => {
-      const limit = getArticleLimit(country);
-      return sources.map(source => ({
-        url: source.url,
-        id: source.id,
-        name: source.name,
-        category: source.category,
-        country,
-        articleLimit: Math.ceil(limit / sources.length), // Distribute limit across sources
-      }));
-    });
-
-    console.log(`Processing ${sourcesToProcess.length} news sources from ${Object.keys(sourcesByCountry).length} countries`);
-
-    // Calculate max articles per source (to stay within time limits)
+    // Calculate max articles per source
     const maxArticlesPerSource = parseInt(process.env.ARTICLES_PER_CATEGORY || '10');
 
-    // Process all sources
-    const result = await fetchAndStoreMultipleSources(
-      sourcesToProcess.map(s => ({
-        url: s.url,
-        id: s.id,
-        name: s.name,
-        category: s.category,
-      })),
-      systemAuthor.id,
-      maxArticlesPerSource
+    // Queue one fetch job per source; items are fanned out by the worker
+    const enqueued = await enqueueSourceFetches(
+      newsSources.map(s => s.id),
+      {
+        authorId: systemAuthor.id,
+        limit: maxArticlesPerSource,
+        processingLogId: processingLog.id,
+      }
     );
 
-    const duration = Date.now() - startTime;
+    console.log(`Queued ${enqueued} of ${newsSources.length} news sources for ingestion`);
 
-    // Update processing log with results
-    await prisma.processingLog.update({
-      where: { id: processingLog.id },
-      data: {
-        status: result.allErrors.length > 0 ? 'partial' : 'success',
-        articlesCount: result.totalStored,
-        errors: result.allErrors.length > 0 ? JSON.stringify(result.allErrors) : null,
-        completedAt: new Date(),
-        metadata: JSON.stringify({
-          duration,
-          stored: result.totalStored,
-          skipped: result.totalSkipped,
-          sourcesProcessed: sourcesToProcess.length,
-          sourceResults: result.sourceResults,
-        }),
-      },
-    });
+    // Nothing new to do (every source still has a job in flight from an earlier run)
+    if (enqueued === 0) {
+      await prisma.processingLog.update({
+        where: { id: processingLog.id },
+        data: {
+          status: 'success',
+          articlesCount: 0,
+          completedAt: new Date(),
+          metadata: JSON.stringify({
+            message: 'All sources already queued',
+            sourcesQueued: 0,
+            duration: Date.now() - startTime,
+          }),
+        },
+      });
+    } else {
+      await prisma.processingLog.update({
+        where: { id: processingLog.id },
+        data: {
+          metadata: JSON.stringify({
+            startTime: new Date(startTime).toISOString(),
+            trigger: 'cron',
+            sourcesQueued: enqueued,
+            sourcesTotal: newsSources.length,
+            articlesPerSource: maxArticlesPerSource,
+          }),
+        },
+      });
+    }
 
     return NextResponse.json({
       success: true,
-      message: `Processed ${sourcesToProcess.length} sources in ${Math.round(duration / 1000)}s`,
-      stored: result.totalStored,
-      skipped: result.totalSkipped,
-      errors: result.allErrors.length,
-      duration: `${Math.round(duration / 1000)}s`,
-      sourceResults: result.sourceResults,
+      message: `Queued ${enqueued} sources for ingestion`,
+      queued: enqueued,
+      sources: newsSources.length,
+      processingLogId: processingLog.id,
     });
 
   } catch (error: any) {
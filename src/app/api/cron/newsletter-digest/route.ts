@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runNewsletterDigest } from '@/lib/newsletterDigest';
+
+// Maximum execution time for Vercel serverless functions (5 minutes for Pro tier)
+export const maxDuration = 300;
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * Newsletter digest: builds the next daily and weekly digests when due and sends them in batches
+ * A digest that runs out of time keeps sending on the next invocation
+ */
+export async function GET(request: NextRequest) {
+  // Validate cron secret for security
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const result = await runNewsletterDigest({
+      timeBudgetMs: parseInt(process.env.DIGEST_SEND_BUDGET_MS || '200000'),
+    });
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      duration: `${Math.round((Date.now() - startTime) / 1000)}s`,
+    });
+
+  } catch (error) {
+    console.error('Newsletter digest error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Newsletter digest failed',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
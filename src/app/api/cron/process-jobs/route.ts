@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { runIngestionWorker } from '@/lib/ingestionJobs';
+
+// Maximum execution time for Vercel serverless functions (5 minutes for Pro tier)
+export const maxDuration = 300;
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+/**
+ * Queue worker: drains ingestion jobs queued by /api/cron/fetch-and-process
+ * Stops claiming new jobs well before maxDuration so in-flight work can finish
+ */
+export async function GET(request: NextRequest) {
+  // Validate cron secret for security
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const startTime = Date.now();
+  const workerId = `worker-${randomUUID()}`;
+
+  try {
+    const stats = await runIngestionWorker({
+      workerId,
+      timeBudgetMs: parseInt(process.env.JOB_WORKER_BUDGET_MS || '200000'),
+    });
+
+    return NextResponse.json({
+      success: true,
+      workerId,
+      ...stats,
+      duration: `${Math.round((Date.now() - startTime) / 1000)}s`,
+    });
+
+  } catch (error) {
+    console.error('Queue worker error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Queue worker failed',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
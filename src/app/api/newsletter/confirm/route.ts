@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+export const dynamic = 'force-dynamic';
+import { prisma } from '@/lib/prisma';
+import { absoluteUrl } from '@/lib/site';
+import { signSubscriberToken } from '@/lib/newsletterSubscription';
+
+/**
+ * GET /api/newsletter/confirm?token= - Double opt-in link from the confirmation email
+ * Redirects to the preferences page either way
+ */
+export async function GET(req: Request) {
+    try {
+        const token = new URL(req.url).searchParams.get('token');
+
+        const subscriber = token
+            ? await prisma.newsletter.findUnique({ where: { confirmToken: token } })
+            : null;
+
+        if (!subscriber || !subscriber.confirmTokenExpires || subscriber.confirmTokenExpires < new Date()) {
+            return NextResponse.redirect(absoluteUrl('/newsletter/preferences?status=invalid'));
+        }
+
+        await prisma.newsletter.update({
+            where: { id: subscriber.id },
+            data: {
+                confirmedAt: new Date(),
+                confirmToken: null,
+                confirmTokenExpires: null,
+                unsubscribedAt: null,
+            },
+        });
+
+        const signed = encodeURIComponent(signSubscriberToken(subscriber.id));
+        return NextResponse.redirect(absoluteUrl(`/newsletter/preferences?token=${signed}&status=confirmed`));
+    } catch (error) {
+        console.error('NEWSLETTER_CONFIRM_ERROR:', error);
+        return NextResponse.json({ message: 'Internal Server Error' }, { status: 500 });
+    }
+}
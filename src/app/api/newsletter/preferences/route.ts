@@ -0,0 +1,101 @@
+import { NextResponse } from 'next/server';
+export const dynamic = 'force-dynamic';
+import { prisma } from '@/lib/prisma';
+import { MULTI_TENANT_FEEDS } from '@/config/multiTenantFeeds';
+import { isNewsletterFrequency, parseCategories, verifySubscriberToken } from '@/lib/newsletterSubscription';
+
+/**
+ * GET /api/newsletter/preferences?token= - Current preferences for a signed subscriber link
+ */
+export async function GET(req: Request) {
+    try {
+        const subscriberId = verifySubscriberToken(new URL(req.url).searchParams.get('token'));
+        if (!subscriberId) {
+            return NextResponse.json({ message: 'Invalid preferences link' }, { status: 400 });
+        }
+
+        const [subscriber, categories] = await Promise.all([
+            prisma.newsletter.findUnique({ where: { id: subscriberId } }),
+            prisma.category.findMany({
+                orderBy: { name: 'asc' },
+                select: { name: true, slug: true },
+            }),
+        ]);
+
+        if (!subscriber) {
+            return NextResponse.json({ message: 'Subscriber not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({
+            email: subscriber.email,
+            confirmed: subscriber.confirmedAt !== null,
+            subscribed: subscriber.confirmedAt !== null && subscriber.unsubscribedAt === null,
+            categories: parseCategories(subscriber.categories) || [],
+            country: subscriber.country,
+            frequency: subscriber.frequency,
+            availableCategories: categories,
+        });
+    } catch (error) {
+        console.error('NEWSLETTER_PREFERENCES_GET_ERROR:', error);
+        return NextResponse.json({ message: 'Internal Server Error' }, { status: 500 });
+    }
+}
+
+/**
+ * PUT /api/newsletter/preferences - Update preferences
+ * Body: { token, categories?, country?, frequency?, subscribed? }
+ * An empty category list means every category; subscribed: false unsubscribes
+ */
+export async function PUT(req: Request) {
+    try {
+        const { token, categories, country, frequency, subscribed } = await req.json();
+
+        const subscriberId = verifySubscriberToken(token);
+        if (!subscriberId) {
+            return NextResponse.json({ message: 'Invalid preferences link' }, { status: 400 });
+        }
+
+        if (frequency !== undefined && !isNewsletterFrequency(frequency)) {
+            return NextResponse.json({ message: 'Invalid frequency' }, { status: 400 });
+        }
+        if (country && !(country in MULTI_TENANT_FEEDS)) {
+            return NextResponse.json({ message: 'Invalid country' }, { status: 400 });
+        }
+        if (categories !== undefined && !Array.isArray(categories)) {
+            return NextResponse.json({ message: 'Categories must be a list' }, { status: 400 });
+        }
+
+        const subscriber = await prisma.newsletter.findUnique({ where: { id: subscriberId } });
+        if (!subscriber) {
+            return NextResponse.json({ message: 'Subscriber not found' }, { status: 404 });
+        }
+        if (subscribed === true && !subscriber.confirmedAt) {
+            return NextResponse.json({ message: 'Confirm your email address first' }, { status: 409 });
+        }
+
+        let categoryValue: string | null | undefined;
+        if (Array.isArray(categories)) {
+            const known = await prisma.category.findMany({
+                where: { slug: { in: categories.map(String) } },
+                select: { slug: true },
+            });
+            categoryValue = known.length > 0 ? JSON.stringify(known.map(c => c.slug)) : null;
+        }
+
+        await prisma.newsletter.update({
+            where: { id: subscriberId },
+            data: {
+                categories: categoryValue,
+                country: country === undefined ? undefined : country || null,
+                frequency: frequency || undefined,
+                ...(subscribed === false && !subscriber.unsubscribedAt ? { unsubscribedAt: new Date() } : {}),
+                ...(subscribed === true ? { unsubscribedAt: null } : {}),
+            },
+        });
+
+        return NextResponse.json({ message: 'Preferences saved' }, { status: 200 });
+    } catch (error) {
+        console.error('NEWSLETTER_PREFERENCES_PUT_ERROR:', error);
+        return NextResponse.json({ message: 'Internal Server Error' }, { status: 500 });
+    }
+}
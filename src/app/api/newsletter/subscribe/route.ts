@@ -1,12 +1,15 @@
 import { NextResponse } from 'next/server';
 export const dynamic = 'force-dynamic';
 import { prisma } from '@/lib/prisma';
+import { sendNewsletterConfirmationEmail } from '@/lib/mail';
+import { CONFIRM_TOKEN_TTL_MS, confirmUrl, createConfirmToken, isValidEmail } from '@/lib/newsletterSubscription';
 
 export async function POST(req: Request) {
     try {
-        const { email } = await req.json();
+        const body = await req.json();
+        const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : '';
 
-        if (!email || !email.includes('@')) {
+        if (!isValidEmail(email)) {
             return NextResponse.json({ message: 'Invalid email address' }, { status: 400 });
         }
 
@@ -15,16 +18,27 @@ export async function POST(req: Request) {
             where: { email }
         });
 
-        if (existing) {
+        if (existing?.confirmedAt && !existing.unsubscribedAt) {
             return NextResponse.json({ message: 'You are already subscribed!' }, { status: 200 });
         }
 
-        await prisma.newsletter.create({
-            data: { email }
+        // New, unconfirmed and previously unsubscribed addresses all get a fresh confirmation link
+        const confirmToken = createConfirmToken();
+        const confirmation = {
+            confirmToken,
+            confirmTokenExpires: new Date(Date.now() + CONFIRM_TOKEN_TTL_MS),
+        };
+
+        await prisma.newsletter.upsert({
+            where: { email },
+            update: { ...confirmation, confirmedAt: null, unsubscribedAt: null },
+            create: { email, ...confirmation },
         });
 
-        return NextResponse.json({ message: 'Successfully subscribed to newsletter!' }, { status: 201 });
-    } catch (error: any) {
+        await sendNewsletterConfirmationEmail(email, confirmUrl(confirmToken));
+
+        return NextResponse.json({ message: 'Almost done! Check your inbox to confirm your subscription.' }, { status: 201 });
+    } catch (error) {
         console.error('Newsletter error:', error);
         return NextResponse.json({ message: 'Something went wrong. Please try again later.' }, { status: 500 });
     }
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+export const dynamic = 'force-dynamic';
+import { prisma } from '@/lib/prisma';
+import { absoluteUrl } from '@/lib/site';
+import { verifySubscriberToken } from '@/lib/newsletterSubscription';
+
+/**
+ * GET /api/newsletter/unsubscribe?token= - Link in the email footer
+ * Only opens the preferences page; link scanners must not unsubscribe anyone
+ */
+export async function GET(req: Request) {
+    const token = new URL(req.url).searchParams.get('token');
+
+    if (!verifySubscriberToken(token)) {
+        return NextResponse.redirect(absoluteUrl('/newsletter/preferences?status=invalid'));
+    }
+
+    return NextResponse.redirect(absoluteUrl(`/newsletter/preferences?token=${encodeURIComponent(token!)}&status=unsubscribe`));
+}
+
+/**
+ * POST /api/newsletter/unsubscribe?token= - One-click unsubscribe (RFC 8058)
+ * Mail clients post "List-Unsubscribe=One-Click" to the List-Unsubscribe URL
+ */
+export async function POST(req: Request) {
+    try {
+        const subscriberId = verifySubscriberToken(new URL(req.url).searchParams.get('token'));
+
+        if (!subscriberId) {
+            return NextResponse.json({ message: 'Invalid unsubscribe link' }, { status: 400 });
+        }
+
+        await prisma.newsletter.updateMany({
+            where: { id: subscriberId, unsubscribedAt: null },
+            data: { unsubscribedAt: new Date() },
+        });
+
+        return NextResponse.json({ message: 'You have been unsubscribed.' }, { status: 200 });
+    } catch (error) {
+        console.error('NEWSLETTER_UNSUBSCRIBE_ERROR:', error);
+        return NextResponse.json({ message: 'Internal Server Error' }, { status: 500 });
+    }
+}
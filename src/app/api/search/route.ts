@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { searchArticles, parseSearchDate } from '@/lib/search';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/search - Full-text search over published articles
+ * Query: q, category, country, from, to, page, limit
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = (searchParams.get('q') || '').trim();
+
+    if (!query) {
+      return NextResponse.json(
+        { success: false, error: 'Search query is required' },
+        { status: 400 }
+      );
+    }
+
+    const { results, pagination } = await searchArticles({
+      query,
+      category: searchParams.get('category'),
+      country: searchParams.get('country'),
+      from: parseSearchDate(searchParams.get('from')),
+      to: parseSearchDate(searchParams.get('to'), true),
+      page: parseInt(searchParams.get('page') || '1'),
+      limit: parseInt(searchParams.get('limit') || '20'),
+    });
+
+    return NextResponse.json({
+      success: true,
+      query,
+      results,
+      pagination,
+    });
+
+  } catch (error) {
+    console.error('Error searching articles:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to search articles',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,17 +1,23 @@
 import styles from './Article.module.css';
+import type { Metadata } from 'next';
 import Link from 'next/link';
 import { notFound } from 'next/navigation';
+import { cache } from 'react';
 import { prisma } from '@/lib/prisma';
+import { RESPONSIVE_IMAGE_SELECT, responsiveImage } from '@/lib/imagePipeline';
+import { ArticleSeo, articleMetadata, newsArticleJsonLd } from '@/lib/seo';
+import { getRelatedArticles } from '@/lib/relatedArticles';
+import BlogCard from '@/components/BlogCard';
+import Comments from '@/components/Comments';
+import JsonLd from '@/components/JsonLd';
 
 interface PageProps {
   params: Promise<{ id: string }>;
 }
 
-export default async function ArticlePage({ params }: PageProps) {
-  const { id: slug } = await params;
-
-  // Fetch article from database by slug
-  const article = await prisma.article.findUnique({
+// Shared by generateMetadata and the page so the article is queried once per request
+const getArticle = cache(async (slug: string) => {
+  return prisma.article.findUnique({
     where: {
       slug,
       published: true,
@@ -29,8 +35,44 @@ export default async function ArticlePage({ params }: PageProps) {
           image: true,
         },
       },
+      storyCluster: {
+        select: {
+          id: true,
+          _count: { select: { articles: { where: { published: true } } } },
+        },
+      },
+      imageAsset: { select: RESPONSIVE_IMAGE_SELECT },
     },
   });
+});
+
+function toArticleSeo(article: NonNullable<Awaited<ReturnType<typeof getArticle>>>): ArticleSeo {
+  return {
+    slug: article.slug,
+    title: article.title,
+    excerpt: article.excerpt,
+    content: article.content,
+    image: article.imageAsset ? responsiveImage(article.imageAsset) : null,
+    publishedAt: article.publishedAt || article.createdAt,
+    updatedAt: article.updatedAt,
+    authorName: article.author.name,
+    categoryName: article.category.name,
+    sourceName: article.sourceName,
+    sourceUrl: article.sourceUrl,
+  };
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { id: slug } = await params;
+  const article = await getArticle(slug);
+  return article ? articleMetadata(toArticleSeo(article)) : { title: 'Article not found' };
+}
+
+export default async function ArticlePage({ params }: PageProps) {
+  const { id: slug } = await params;
+
+  // Fetch article from database by slug
+  const article = await getArticle(slug);
 
   if (!article) {
     notFound();
@@ -58,25 +100,15 @@ export default async function ArticlePage({ params }: PageProps) {
 
   const readTime = calculateReadTime(article.content);
 
-  // Get fallback image by category
-  const getFallbackImage = (categorySlug: string): string => {
-    const fallbacks: Record<string, string> = {
-      news: 'https://images.unsplash.com/photo-1504711434969-e33886168f5c?w=1200&h=675&fit=crop',
-      sports: 'https://images.unsplash.com/photo-1461896836934-ffe607ba8211?w=1200&h=675&fit=crop',
-      business: 'https://images.unsplash.com/photo-1486406146926-c627a92ad1ab?w=1200&h=675&fit=crop',
-      technology: 'https://images.unsplash.com/photo-1518770660439-4636190af475?w=1200&h=675&fit=crop',
-      entertainment: 'https://images.unsplash.com/photo-1514525253161-7a46d19cd819?w=1200&h=675&fit=crop',
-      politics: 'https://images.unsplash.com/photo-1529107386315-e1a2ed48a620?w=1200&h=675&fit=crop',
-      health: 'https://images.unsplash.com/photo-1505751172876-fa1923c5c528?w=1200&h=675&fit=crop',
-      world: 'https://images.unsplash.com/photo-1526778548025-fa2f459cd5c1?w=1200&h=675&fit=crop',
-    };
-    return fallbacks[categorySlug] || fallbacks.news;
-  };
+  // Stored variants; articles without an image get no hero image rather than a stock photo
+  const heroImage = article.imageAsset ? responsiveImage(article.imageAsset) : null;
 
-  const displayImage = article.image || getFallbackImage(article.category.slug);
+  const related = (await getRelatedArticles(article.slug, 4)) || [];
 
   return (
     <div className={styles.page}>
+      <JsonLd data={newsArticleJsonLd(toArticleSeo(article))} />
+
       {/* Hero Section */}
       <div className={styles.hero}>
         <div className={styles.heroContent}>
@@ -106,13 +138,22 @@ export default async function ArticlePage({ params }: PageProps) {
 
       {/* Featured Image */}
       <div className={styles.container}>
-        <div className={styles.imageWrapper}>
-          <img
-            src={displayImage}
-            alt={article.title}
-            className={styles.featuredImage}
-          />
-        </div>
+        {heroImage && (
+          <div
+            className={styles.imageWrapper}
+            style={{ backgroundImage: `url(${heroImage.blurDataUrl})`, backgroundSize: 'cover' }}
+          >
+            <img
+              src={heroImage.src}
+              srcSet={heroImage.srcSet}
+              sizes="(max-width: 800px) 100vw, 752px"
+              width={heroImage.width}
+              height={heroImage.height}
+              alt={article.title}
+              className={styles.featuredImage}
+            />
+          </div>
+        )}
 
         {/* Article Content */}
         <article className={styles.article}>
@@ -127,10 +168,38 @@ export default async function ArticlePage({ params }: PageProps) {
             <div className={styles.sourceBox}>
               <p className={styles.sourceLabel}>Source</p>
               <p className={styles.sourceName}>{article.sourceName}</p>
+              {article.storyCluster && article.storyCluster._count.articles > 1 && (
+                <Link href={`/story/${article.storyCluster.id}`} className={styles.coverageLink}>
+                  See all {article.storyCluster._count.articles} reports on this story →
+                </Link>
+              )}
             </div>
           )}
         </article>
 
+        {/* Related Articles */}
+        {related.length > 0 && (
+          <section className={styles.related}>
+            <h2 className={styles.relatedTitle}>Related articles</h2>
+            <div className={styles.relatedGrid}>
+              {related.map(item => (
+                <BlogCard
+                  key={item.id}
+                  slug={item.slug}
+                  title={item.title}
+                  excerpt={item.excerpt || undefined}
+                  image={item.image || undefined}
+                  imageSet={item.imageSet || undefined}
+                  author={item.author}
+                  date={formatDate(item.publishedAt)}
+                  readTime={item.readTime}
+                  category={item.category}
+                />
+              ))}
+            </div>
+          </section>
+        )}
+
         {/* Navigation Footer */}
         <div className={styles.articleFooter}>
           <Link href="/" className={styles.footerLink}>
@@ -140,6 +209,8 @@ export default async function ArticlePage({ params }: PageProps) {
             More in {article.category.name} →
           </Link>
         </div>
+
+        <Comments slug={article.slug} />
       </div>
     </div>
   );
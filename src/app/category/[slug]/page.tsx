@@ -1,10 +1,32 @@
+import type { Metadata } from 'next';
 import CategoryPage from '@/components/CategoryPage';
+import JsonLd from '@/components/JsonLd';
+import { prisma } from '@/lib/prisma';
+import { categoryJsonLd, categoryMetadata } from '@/lib/seo';
 
 interface PageProps {
   params: Promise<{ slug: string }>;
+  searchParams: Promise<{ country?: string }>;
 }
 
-export default async function Page({ params }: PageProps) {
+async function findCategory(slug: string) {
+  return prisma.category.findUnique({ where: { slug }, select: { name: true, slug: true } });
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const category = await findCategory(slug);
+  return category ? categoryMetadata(category) : { title: 'Category not found' };
+}
+
+export default async function Page({ params, searchParams }: PageProps) {
   const { slug } = await params;
-  return <CategoryPage slug={slug} />;
+  const { country } = await searchParams;
+  const category = await findCategory(slug);
+  return (
+    <>
+      {category && <JsonLd data={categoryJsonLd(category)} />}
+      <CategoryPage slug={slug} country={country} />
+    </>
+  );
 }
@@ -0,0 +1,11 @@
+import { NextRequest } from 'next/server';
+import { handleFeedRequest } from '@/lib/syndication';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /feed.atom - Atom feed of published articles, optionally ?category=<slug>&country=<code>
+ */
+export async function GET(request: NextRequest) {
+  return handleFeedRequest(request, 'atom');
+}
@@ -6,6 +6,8 @@ import Footer from "@/components/Footer";
 import Navbar from "@/components/Navbar";
 import ClientLayout from "@/components/ClientLayout";
 import AnalyticsTracker from "@/components/AnalyticsTracker";
+import { SITE_NAME, SITE_URL } from "@/lib/site";
+import { SITE_DESCRIPTION, feedAlternateTypes } from "@/lib/seo";
 
 const fraunces = Fraunces({
   variable: "--font-fraunces",
@@ -26,8 +28,16 @@ const ibmPlexSans = IBM_Plex_Sans({
 });
 
 export const metadata: Metadata = {
-  title: "True Line Blog",
-  description: "Your premium daily source for the latest blog posts and analysis",
+  metadataBase: new URL(SITE_URL),
+  title: {
+    default: SITE_NAME,
+    template: `%s | ${SITE_NAME}`,
+  },
+  description: SITE_DESCRIPTION,
+  alternates: {
+    // Feed autodiscovery for readers
+    types: feedAlternateTypes(),
+  },
 };
 
 // ... existing imports
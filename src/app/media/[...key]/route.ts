@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { getImageStorage, isValidStorageKey } from '@/lib/imageStorage';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ key: string[] }>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  webp: 'image/webp',
+  avif: 'image/avif',
+  jpg: 'image/jpeg',
+  png: 'image/png',
+};
+
+/**
+ * GET /media/[...key] - Serve a stored image variant
+ * Keys contain the image hash, so responses never change and are cached for a year
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  const { key: parts } = await params;
+  const key = parts.join('/');
+  const contentType = CONTENT_TYPES[key.split('.').pop() || ''];
+
+  if (!isValidStorageKey(key) || !contentType) {
+    return new NextResponse('Not found', { status: 404 });
+  }
+
+  try {
+    const body = await getImageStorage().get(key);
+    if (!body) {
+      return new NextResponse('Not found', { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(body), {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Length': String(body.length),
+        'Cache-Control': 'public, max-age=31536000, immutable',
+      },
+    });
+  } catch (error) {
+    console.error('MEDIA_GET_ERROR:', error);
+    return new NextResponse('Internal Server Error', { status: 500 });
+  }
+}
@@ -0,0 +1,204 @@
+'use client';
+
+import { useEffect, useState, Suspense } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { getAvailableCountries } from '@/config/multiTenantFeeds';
+import styles from './Preferences.module.css';
+
+interface Preferences {
+    email: string;
+    confirmed: boolean;
+    subscribed: boolean;
+    categories: string[];
+    country: string | null;
+    frequency: string;
+    availableCategories: { name: string; slug: string }[];
+}
+
+const STATUS_MESSAGES: Record<string, string> = {
+    confirmed: 'Your subscription is confirmed. Choose what you would like to receive below.',
+    unsubscribe: 'Sorry to see you go. Confirm below to stop receiving the newsletter.',
+};
+
+function PreferencesContent() {
+    const searchParams = useSearchParams();
+    const token = searchParams.get('token');
+    const status = searchParams.get('status');
+
+    const [prefs, setPrefs] = useState<Preferences | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [message, setMessage] = useState(status ? STATUS_MESSAGES[status] || '' : '');
+    const [error, setError] = useState(status === 'invalid' ? 'This link is invalid or has expired. Subscribe again from the homepage.' : '');
+
+    useEffect(() => {
+        async function loadPreferences() {
+            if (!token) {
+                setLoading(false);
+                return;
+            }
+
+            try {
+                const res = await fetch(`/api/newsletter/preferences?token=${encodeURIComponent(token)}`);
+                const data = await res.json();
+                if (res.ok) {
+                    setPrefs(data);
+                } else {
+                    setError(data.message || 'Failed to load preferences');
+                }
+            } catch {
+                setError('Network error. Please try again.');
+            } finally {
+                setLoading(false);
+            }
+        }
+        loadPreferences();
+    }, [token]);
+
+    const save = async (changes: Partial<Preferences>, successMessage: string) => {
+        if (!prefs) return;
+        setSaving(true);
+        setError('');
+
+        try {
+            const next = { ...prefs, ...changes };
+            const res = await fetch('/api/newsletter/preferences', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    token,
+                    categories: next.categories,
+                    country: next.country,
+                    frequency: next.frequency,
+                    subscribed: next.subscribed,
+                }),
+            });
+            const data = await res.json();
+
+            if (!res.ok) throw new Error(data.message || 'Failed to save preferences');
+
+            setPrefs(next);
+            setMessage(successMessage);
+        } catch (err) {
+            setError((err as Error).message);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const toggleCategory = (slug: string) => {
+        if (!prefs) return;
+        const categories = prefs.categories.includes(slug)
+            ? prefs.categories.filter(c => c !== slug)
+            : [...prefs.categories, slug];
+        setPrefs({ ...prefs, categories });
+    };
+
+    if (loading) {
+        return <div className={styles.container}>Loading preferences...</div>;
+    }
+
+    return (
+        <div className={styles.container}>
+            <div className={styles.card}>
+                <h1 className={styles.title}>Newsletter Preferences</h1>
+                {prefs && <p className={styles.subtitle}>{prefs.email}</p>}
+
+                {message && <div className={styles.message}>{message}</div>}
+                {error && <div className={styles.error}>{error}</div>}
+
+                {!prefs ? (
+                    <Link href="/" className={styles.homeLink}>← Back to homepage</Link>
+                ) : !prefs.subscribed ? (
+                    <div className={styles.section}>
+                        <p className={styles.hint}>
+                            {prefs.confirmed
+                                ? 'You are not receiving the newsletter.'
+                                : 'Please confirm your subscription from the email we sent you.'}
+                        </p>
+                        {prefs.confirmed && (
+                            <button
+                                className={styles.saveBtn}
+                                disabled={saving}
+                                onClick={() => save({ subscribed: true }, 'Welcome back! You are subscribed again.')}
+                            >
+                                Resubscribe
+                            </button>
+                        )}
+                    </div>
+                ) : (
+                    <>
+                        <div className={styles.section}>
+                            <p className={styles.sectionTitle}>Categories</p>
+                            <p className={styles.hint}>Leave everything unticked to get every category.</p>
+                            <div className={styles.checkboxGrid}>
+                                {prefs.availableCategories.map(category => (
+                                    <label key={category.slug} className={styles.checkboxLabel}>
+                                        <input
+                                            type="checkbox"
+                                            checked={prefs.categories.includes(category.slug)}
+                                            onChange={() => toggleCategory(category.slug)}
+                                        />
+                                        {category.name}
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+
+                        <div className={styles.section}>
+                            <p className={styles.sectionTitle}>Country</p>
+                            <select
+                                className={styles.select}
+                                value={prefs.country || ''}
+                                onChange={e => setPrefs({ ...prefs, country: e.target.value || null })}
+                            >
+                                <option value="">Global stories</option>
+                                {getAvailableCountries().map(country => (
+                                    <option key={country.code} value={country.code}>{country.name}</option>
+                                ))}
+                            </select>
+                        </div>
+
+                        <div className={styles.section}>
+                            <p className={styles.sectionTitle}>Frequency</p>
+                            <select
+                                className={styles.select}
+                                value={prefs.frequency}
+                                onChange={e => setPrefs({ ...prefs, frequency: e.target.value })}
+                            >
+                                <option value="daily">Daily</option>
+                                <option value="weekly">Weekly</option>
+                            </select>
+                        </div>
+
+                        <div className={styles.actions}>
+                            <button
+                                className={styles.saveBtn}
+                                disabled={saving}
+                                onClick={() => save({}, 'Preferences saved.')}
+                            >
+                                Save Preferences
+                            </button>
+                            <button
+                                className={styles.unsubscribeBtn}
+                                disabled={saving}
+                                onClick={() => save({ subscribed: false }, 'You have been unsubscribed.')}
+                            >
+                                Unsubscribe
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
+
+export default function NewsletterPreferencesPage() {
+    return (
+        <Suspense fallback={<div>Loading...</div>}>
+            <PreferencesContent />
+        </Suspense>
+    );
+}
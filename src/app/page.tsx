@@ -1,5 +1,14 @@
 import HomePage from '@/components/HomePage';
+import JsonLd from '@/components/JsonLd';
+import { homeMetadata, websiteJsonLd } from '@/lib/seo';
+
+export const metadata = homeMetadata;
 
 export default function Page() {
-  return <HomePage />;
+  return (
+    <>
+      <JsonLd data={websiteJsonLd()} />
+      <HomePage />
+    </>
+  );
 }
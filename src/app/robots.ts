@@ -0,0 +1,30 @@
+import type { MetadataRoute } from 'next';
+import { SITE_URL, absoluteUrl } from '@/lib/site';
+
+/**
+ * /robots.txt - Keep crawlers out of account and admin pages and point them at the sitemaps
+ */
+export default function robots(): MetadataRoute.Robots {
+  return {
+    rules: [
+      {
+        userAgent: '*',
+        allow: '/',
+        disallow: [
+          '/admin',
+          '/api/',
+          '/profile',
+          '/login',
+          '/signup',
+          '/forgot-password',
+          '/reset-password',
+          '/verify-otp',
+          '/newsletter/preferences',
+          '/search',
+        ],
+      },
+    ],
+    sitemap: [absoluteUrl('/sitemap.xml'), absoluteUrl('/sitemaps/news.xml')],
+    host: SITE_URL,
+  };
+}
@@ -0,0 +1,135 @@
+import Link from 'next/link';
+import pageStyles from '@/app/page.module.css';
+import styles from './Search.module.css';
+import BlogCard from '@/components/BlogCard';
+import { prisma } from '@/lib/prisma';
+import { searchArticles, parseSearchDate, ArticleSearchResponse } from '@/lib/search';
+
+interface SearchPageParams {
+  q?: string;
+  category?: string;
+  country?: string;
+  from?: string;
+  to?: string;
+  page?: string;
+}
+
+interface PageProps {
+  searchParams: Promise<SearchPageParams>;
+}
+
+export const dynamic = 'force-dynamic';
+
+export default async function SearchPage({ searchParams }: PageProps) {
+  const params = await searchParams;
+  const query = (params.q || '').trim();
+  const page = Math.max(parseInt(params.page || '1') || 1, 1);
+
+  const categories = await prisma.category.findMany({
+    orderBy: { name: 'asc' },
+    select: { name: true, slug: true },
+  });
+
+  let search: ArticleSearchResponse | null = null;
+  if (query) {
+    search = await searchArticles({
+      query,
+      category: params.category,
+      country: params.country,
+      from: parseSearchDate(params.from),
+      to: parseSearchDate(params.to, true),
+      page,
+      limit: 18,
+    });
+  }
+
+  // Keep the active filters when moving between result pages
+  const pageHref = (target: number): string => {
+    const qs = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value && key !== 'page') qs.set(key, value);
+    });
+    qs.set('page', String(target));
+    return `/search?${qs.toString()}`;
+  };
+
+  return (
+    <div className={pageStyles.page}>
+      <main className={pageStyles.content}>
+        <section className={pageStyles.blogHeader}>
+          <h1 className={pageStyles.blogMainTitle}>Search</h1>
+          {search ? (
+            <p className={styles.resultCount}>
+              {search.pagination.total} result{search.pagination.total === 1 ? '' : 's'} for &ldquo;{query}&rdquo;
+            </p>
+          ) : (
+            <p className={pageStyles.blogSubtitle}>Find blog posts by keyword, category, country or date</p>
+          )}
+
+          <form action="/search" method="get" className={styles.filters}>
+            <input
+              type="search"
+              name="q"
+              defaultValue={query}
+              placeholder="Search articles"
+              className={styles.queryInput}
+              required
+            />
+            <select name="category" defaultValue={params.category || ''}>
+              <option value="">All categories</option>
+              {categories.map((category) => (
+                <option key={category.slug} value={category.slug}>{category.name}</option>
+              ))}
+            </select>
+            <input type="date" name="from" defaultValue={params.from || ''} aria-label="From date" />
+            <input type="date" name="to" defaultValue={params.to || ''} aria-label="To date" />
+            {params.country && <input type="hidden" name="country" value={params.country} />}
+            <button type="submit" className={styles.submitBtn}>Search</button>
+          </form>
+        </section>
+
+        {search && (
+          <section className={pageStyles.allBlogsSection}>
+            {search.results.length === 0 ? (
+              <div className={pageStyles.noPosts}>
+                <p>No blog posts match your search.</p>
+              </div>
+            ) : (
+              <div className={pageStyles.blogGrid}>
+                {search.results.map((result) => (
+                  <BlogCard
+                    key={result.id}
+                    slug={result.slug}
+                    title={result.title}
+                    excerpt={
+                      // Snippet is HTML-escaped by searchArticles; only <mark> tags remain
+                      <span className={styles.snippet} dangerouslySetInnerHTML={{ __html: result.snippet }} />
+                    }
+                    image={result.image || undefined}
+                    imageSet={result.imageSet || undefined}
+                    author={result.author}
+                    date={result.pubDate}
+                    readTime={result.readTime}
+                    category={result.category}
+                  />
+                ))}
+              </div>
+            )}
+
+            {search.pagination.totalPages > 1 && (
+              <nav className={styles.pagination}>
+                {page > 1 && (
+                  <Link href={pageHref(page - 1)} className={styles.pageLink}>← Previous</Link>
+                )}
+                <span>Page {page} of {search.pagination.totalPages}</span>
+                {search.pagination.hasMore && (
+                  <Link href={pageHref(page + 1)} className={styles.pageLink}>Next →</Link>
+                )}
+              </nav>
+            )}
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { buildSitemapIndex, sitemapResponse } from '@/lib/sitemaps';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /sitemap.xml - Sitemap index of the static, category, news and article sitemaps
+ */
+export async function GET() {
+  try {
+    return sitemapResponse(await buildSitemapIndex());
+  } catch (error) {
+    console.error('SITEMAP_INDEX_ERROR:', error);
+    return new NextResponse('Internal Server Error', { status: 500 });
+  }
+}
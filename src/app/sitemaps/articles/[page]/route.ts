@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { buildArticleSitemap, sitemapResponse } from '@/lib/sitemaps';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ page: string }>;
+}
+
+/**
+ * GET /sitemaps/articles/[page].xml - One page of published article URLs
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { page } = await params;
+    const match = /^(\d+)\.xml$/.exec(page);
+    const xml = match ? await buildArticleSitemap(parseInt(match[1])) : null;
+    if (!xml) {
+      return new NextResponse('Not found', { status: 404 });
+    }
+
+    return sitemapResponse(xml);
+  } catch (error) {
+    console.error('SITEMAP_ARTICLES_ERROR:', error);
+    return new NextResponse('Internal Server Error', { status: 500 });
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { buildCategorySitemap, sitemapResponse } from '@/lib/sitemaps';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /sitemaps/categories.xml - Category pages, dated by their latest article
+ */
+export async function GET() {
+  try {
+    return sitemapResponse(await buildCategorySitemap());
+  } catch (error) {
+    console.error('SITEMAP_CATEGORIES_ERROR:', error);
+    return new NextResponse('Internal Server Error', { status: 500 });
+  }
+}
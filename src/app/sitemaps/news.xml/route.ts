@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { buildNewsSitemap, sitemapResponse } from '@/lib/sitemaps';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /sitemaps/news.xml - Google News sitemap of the last 48 hours
+ */
+export async function GET() {
+  try {
+    // News crawlers poll often, so this one is cached briefly
+    return sitemapResponse(await buildNewsSitemap(), 300);
+  } catch (error) {
+    console.error('SITEMAP_NEWS_ERROR:', error);
+    return new NextResponse('Internal Server Error', { status: 500 });
+  }
+}
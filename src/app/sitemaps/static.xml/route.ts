@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { buildStaticSitemap, sitemapResponse } from '@/lib/sitemaps';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /sitemaps/static.xml - Home page and the fixed pages
+ */
+export async function GET() {
+  try {
+    return sitemapResponse(await buildStaticSitemap());
+  } catch (error) {
+    console.error('SITEMAP_STATIC_ERROR:', error);
+    return new NextResponse('Internal Server Error', { status: 500 });
+  }
+}
@@ -0,0 +1,116 @@
+import articleStyles from '@/app/article/[id]/Article.module.css';
+import styles from './Story.module.css';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { prisma } from '@/lib/prisma';
+import { MULTI_TENANT_FEEDS, CountryCode } from '@/config/multiTenantFeeds';
+
+interface PageProps {
+  params: Promise<{ id: string }>;
+}
+
+// Format date
+const formatDate = (date: Date): string => {
+  return date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+};
+
+export default async function StoryPage({ params }: PageProps) {
+  const { id } = await params;
+
+  const cluster = await prisma.storyCluster.findUnique({
+    where: { id },
+    include: {
+      articles: {
+        where: { published: true },
+        select: {
+          id: true,
+          title: true,
+          slug: true,
+          excerpt: true,
+          sourceName: true,
+          sourceUrl: true,
+          country: true,
+          publishedAt: true,
+          createdAt: true,
+        },
+        orderBy: { publishedAt: 'asc' },
+      },
+    },
+  });
+
+  if (!cluster || cluster.articles.length === 0) {
+    notFound();
+  }
+
+  const sourceCount = new Set(cluster.articles.map(a => a.sourceName || a.id)).size;
+  const countryCount = new Set(cluster.articles.map(a => a.country).filter(Boolean)).size;
+
+  return (
+    <div className={articleStyles.page}>
+      {/* Hero Section */}
+      <div className={articleStyles.hero}>
+        <div className={articleStyles.heroContent}>
+          <Link href="/" className={articleStyles.backLink}>
+            ← Back to Blog
+          </Link>
+
+          <span className={articleStyles.categoryBadge}>Coverage</span>
+
+          <h1 className={articleStyles.heroTitle}>{cluster.title}</h1>
+
+          <div className={articleStyles.heroMeta}>
+            <span>{sourceCount} source{sourceCount === 1 ? '' : 's'}</span>
+            {countryCount > 1 && (
+              <>
+                <span className={articleStyles.metaDot}>•</span>
+                <span>{countryCount} countries</span>
+              </>
+            )}
+            <span className={articleStyles.metaDot}>•</span>
+            <span>First reported {formatDate(cluster.firstSeenAt)}</span>
+          </div>
+        </div>
+      </div>
+
+      <div className={articleStyles.container}>
+        <div className={styles.coverageList}>
+          {cluster.articles.map((article) => (
+            <div key={article.id} className={styles.coverageItem}>
+              <div className={styles.sourceRow}>
+                <span className={styles.sourceName}>{article.sourceName || 'Unknown source'}</span>
+                {article.country && (
+                  <span className={styles.countryBadge}>
+                    {MULTI_TENANT_FEEDS[article.country as CountryCode]?.name || article.country}
+                  </span>
+                )}
+                <span>{formatDate(article.publishedAt || article.createdAt)}</span>
+              </div>
+
+              <h2 className={styles.itemTitle}>
+                <Link href={`/article/${article.slug}`}>{article.title}</Link>
+              </h2>
+
+              {article.excerpt && <p className={styles.itemExcerpt}>{article.excerpt}</p>}
+
+              {article.sourceUrl && (
+                <a href={article.sourceUrl} target="_blank" rel="noopener noreferrer" className={styles.originalLink}>
+                  Read the original at {article.sourceName || 'the source'} ↗
+                </a>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {/* Navigation Footer */}
+        <div className={articleStyles.articleFooter}>
+          <Link href="/" className={articleStyles.footerLink}>
+            ← Back to Homepage
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Revalidate often: new coverage keeps joining recent stories
+export const revalidate = 600;
@@ -1,11 +1,15 @@
+import type { ReactNode } from 'react';
 import Link from 'next/link';
 import styles from './BlogCard.module.css';
+import type { ResponsiveImage } from '@/types/image';
 
 interface BlogCardProps {
   slug: string;
   title: string;
-  excerpt?: string;
+  excerpt?: ReactNode;
   image?: string;
+  // Stored variants of image, when the article has them
+  imageSet?: ResponsiveImage;
   author?: string;
   date: string;
   readTime?: string;
@@ -17,6 +21,7 @@ export default function BlogCard({
   title,
   excerpt,
   image,
+  imageSet,
   author = 'Editorial Team',
   date,
   readTime = '5 min read',
@@ -24,9 +29,23 @@ export default function BlogCard({
 }: BlogCardProps) {
   return (
     <Link href={`/article/${slug}`} className={styles.card}>
-      <div className={styles.imageWrapper}>
-        {image ? (
-          <img src={image} alt={title} className={styles.image} />
+      <div
+        className={styles.imageWrapper}
+        style={imageSet ? { backgroundImage: `url(${imageSet.blurDataUrl})`, backgroundSize: 'cover' } : undefined}
+      >
+        {imageSet ? (
+          <img
+            src={imageSet.src}
+            srcSet={imageSet.srcSet}
+            sizes="(max-width: 768px) 100vw, 400px"
+            width={imageSet.width}
+            height={imageSet.height}
+            alt={title}
+            loading="lazy"
+            className={styles.image}
+          />
+        ) : image ? (
+          <img src={image} alt={title} loading="lazy" className={styles.image} />
         ) : (
           <div className={styles.noImage}>
             <span>No Cover Image</span>
@@ -3,20 +3,28 @@
 import { useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { useCategory } from '@/contexts/CategoryContext';
+import { useCountry, isValidCountryCode } from '@/contexts/CountryContext';
 
 interface CategoryPageProps {
   slug: string;
+  country?: string;
 }
 
-export default function CategoryPage({ slug }: CategoryPageProps) {
+export default function CategoryPage({ slug, country }: CategoryPageProps) {
   const router = useRouter();
   const { setSelectedCategory } = useCategory();
+  const { setCountryCode } = useCountry();
 
   useEffect(() => {
+    // Apply an explicit country filter (e.g. /category/sports?country=INDIA)
+    if (country && isValidCountryCode(country)) {
+      setCountryCode(country);
+    }
+
     // Set the category and redirect to homepage
     setSelectedCategory(slug);
     router.push('/');
-  }, [slug, setSelectedCategory, router]);
+  }, [slug, country, setSelectedCategory, setCountryCode, router]);
 
   // Show loading state while redirecting
   return (
@@ -0,0 +1,270 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useSession } from 'next-auth/react';
+import styles from './Comments.module.css';
+
+interface CommentData {
+    id: string;
+    content: string;
+    parentId: string | null;
+    createdAt: string;
+    editedAt: string | null;
+    deleted: boolean;
+    author: { id: string; name: string; image: string | null };
+    replies?: CommentData[];
+}
+
+interface CommentsProps {
+    slug: string;
+}
+
+const PAGE_SIZE = 20;
+
+export default function Comments({ slug }: CommentsProps) {
+    const { data: session } = useSession();
+    const userId = (session?.user as any)?.id as string | undefined;
+
+    const [comments, setComments] = useState<CommentData[]>([]);
+    const [page, setPage] = useState(1);
+    const [total, setTotal] = useState(0);
+    const [hasMore, setHasMore] = useState(false);
+    const [newComment, setNewComment] = useState('');
+    const [replyTo, setReplyTo] = useState<string | null>(null);
+    const [replyText, setReplyText] = useState('');
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editText, setEditText] = useState('');
+    const [error, setError] = useState('');
+    const [submitting, setSubmitting] = useState(false);
+
+    useEffect(() => {
+        async function loadComments() {
+            try {
+                const res = await fetch(`/api/articles/${slug}/comments?page=${page}&limit=${PAGE_SIZE}`);
+                const data = await res.json();
+                if (data.success) {
+                    // Later pages append to what is already shown
+                    setComments(prev => page === 1 ? data.comments : [...prev, ...data.comments]);
+                    setTotal(data.pagination.total);
+                    setHasMore(data.pagination.hasMore);
+                }
+            } catch (err) {
+                console.error('Failed to fetch comments:', err);
+            }
+        }
+        loadComments();
+    }, [slug, page]);
+
+    const postComment = async (content: string, parentId?: string) => {
+        setSubmitting(true);
+        setError('');
+        try {
+            const res = await fetch(`/api/articles/${slug}/comments`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ content, parentId }),
+            });
+            const data = await res.json();
+            if (!data.success) {
+                setError(data.error || 'Failed to post comment');
+                return false;
+            }
+
+            const created: CommentData = data.comment;
+            if (created.parentId) {
+                setComments(prev => prev.map(c => c.id === created.parentId
+                    ? { ...c, replies: [...(c.replies || []), created] }
+                    : c));
+            } else {
+                setComments(prev => [{ ...created, replies: [] }, ...prev]);
+                setTotal(prev => prev + 1);
+            }
+            return true;
+        } catch (err) {
+            console.error('Failed to post comment:', err);
+            setError('Failed to post comment');
+            return false;
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    // Apply a change to a comment wherever it sits in the thread
+    const updateComment = (id: string, change: (comment: CommentData) => CommentData | null) => {
+        setComments(prev => prev
+            .map(c => {
+                if (c.id === id) return change(c);
+                if (!c.replies) return c;
+                const replies = c.replies
+                    .map(r => (r.id === id ? change(r) : r))
+                    .filter((r): r is CommentData => r !== null);
+                return { ...c, replies };
+            })
+            .filter((c): c is CommentData => c !== null));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newComment.trim()) return;
+        if (await postComment(newComment)) setNewComment('');
+    };
+
+    const handleReply = async (e: React.FormEvent, parentId: string) => {
+        e.preventDefault();
+        if (!replyText.trim()) return;
+        if (await postComment(replyText, parentId)) {
+            setReplyText('');
+            setReplyTo(null);
+        }
+    };
+
+    const handleEdit = async (e: React.FormEvent, id: string) => {
+        e.preventDefault();
+        try {
+            const res = await fetch(`/api/comments/${id}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ content: editText }),
+            });
+            const data = await res.json();
+            if (data.success) {
+                updateComment(id, c => ({ ...c, content: data.comment.content, editedAt: data.comment.editedAt }));
+                setEditingId(null);
+            } else {
+                setError(data.error || 'Failed to update comment');
+            }
+        } catch (err) {
+            console.error('Failed to update comment:', err);
+        }
+    };
+
+    const handleDelete = async (comment: CommentData) => {
+        if (!confirm('Delete this comment?')) return;
+        try {
+            const res = await fetch(`/api/comments/${comment.id}`, { method: 'DELETE' });
+            const data = await res.json();
+            if (!data.success) {
+                setError(data.error || 'Failed to delete comment');
+                return;
+            }
+
+            // Comments with replies stay in the thread as a placeholder
+            if (comment.replies && comment.replies.length > 0) {
+                updateComment(comment.id, c => ({ ...c, deleted: true, content: '' }));
+            } else {
+                updateComment(comment.id, () => null);
+                if (!comment.parentId) setTotal(prev => prev - 1);
+            }
+        } catch (err) {
+            console.error('Failed to delete comment:', err);
+        }
+    };
+
+    const renderComment = (comment: CommentData, isReply: boolean) => {
+        const isOwn = !!userId && comment.author.id === userId && !comment.deleted;
+
+        return (
+            <div key={comment.id} className={isReply ? styles.reply : styles.comment}>
+                <div className={styles.commentMeta}>
+                    <span className={styles.commentAuthor}>{comment.author.name}</span>
+                    <span>{new Date(comment.createdAt).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })}</span>
+                    {comment.editedAt && !comment.deleted && <span>(edited)</span>}
+                </div>
+
+                {editingId === comment.id ? (
+                    <form onSubmit={e => handleEdit(e, comment.id)} className={styles.form}>
+                        <textarea rows={3} value={editText} onChange={e => setEditText(e.target.value)} required />
+                        <div className={styles.formActions}>
+                            <button type="submit" className={styles.submitBtn}>Save</button>
+                            <button type="button" className={styles.linkBtn} onClick={() => setEditingId(null)}>Cancel</button>
+                        </div>
+                    </form>
+                ) : (
+                    <p className={comment.deleted ? styles.deletedText : styles.commentText}>
+                        {comment.deleted ? 'This comment was deleted.' : comment.content}
+                    </p>
+                )}
+
+                <div className={styles.commentActions}>
+                    {session && !isReply && (
+                        <button className={styles.linkBtn} onClick={() => { setReplyTo(comment.id); setReplyText(''); }}>Reply</button>
+                    )}
+                    {session && isReply && comment.parentId && !comment.deleted && (
+                        <button className={styles.linkBtn} onClick={() => { setReplyTo(comment.parentId); setReplyText(`@${comment.author.name} `); }}>Reply</button>
+                    )}
+                    {isOwn && editingId !== comment.id && (
+                        <>
+                            <button className={styles.linkBtn} onClick={() => { setEditingId(comment.id); setEditText(comment.content); }}>Edit</button>
+                            <button className={styles.linkBtn} onClick={() => handleDelete(comment)}>Delete</button>
+                        </>
+                    )}
+                </div>
+
+                {!isReply && (
+                    <div className={styles.replies}>
+                        {comment.replies?.map(reply => renderComment(reply, true))}
+                        {replyTo === comment.id && (
+                            <form onSubmit={e => handleReply(e, comment.id)} className={styles.form}>
+                                <textarea
+                                    rows={2}
+                                    placeholder="Write a reply..."
+                                    value={replyText}
+                                    onChange={e => setReplyText(e.target.value)}
+                                    required
+                                />
+                                <div className={styles.formActions}>
+                                    <button type="submit" className={styles.submitBtn} disabled={submitting}>Reply</button>
+                                    <button type="button" className={styles.linkBtn} onClick={() => setReplyTo(null)}>Cancel</button>
+                                </div>
+                            </form>
+                        )}
+                    </div>
+                )}
+            </div>
+        );
+    };
+
+    return (
+        <section className={styles.section}>
+            <h2 className={styles.heading}>Comments ({total})</h2>
+
+            {session ? (
+                <form onSubmit={handleSubmit} className={styles.form}>
+                    <textarea
+                        rows={4}
+                        placeholder="Share your thoughts..."
+                        value={newComment}
+                        onChange={e => setNewComment(e.target.value)}
+                        required
+                    />
+                    <div className={styles.formActions}>
+                        <button type="submit" className={styles.submitBtn} disabled={submitting}>
+                            {submitting ? 'Posting...' : 'Post Comment'}
+                        </button>
+                    </div>
+                </form>
+            ) : (
+                <p className={styles.signInPrompt}>
+                    <Link href="/login">Sign in</Link> to join the discussion.
+                </p>
+            )}
+
+            {error && <p className={styles.error}>{error}</p>}
+
+            {comments.length === 0 ? (
+                <p className={styles.empty}>No comments yet. Be the first to comment.</p>
+            ) : (
+                <div className={styles.list}>
+                    {comments.map(comment => renderComment(comment, false))}
+                </div>
+            )}
+
+            {hasMore && (
+                <button className={styles.loadMore} onClick={() => setPage(page + 1)}>
+                    Load more comments
+                </button>
+            )}
+        </section>
+    );
+}
@@ -42,7 +42,7 @@ export default function HomePage() {
 
         await Promise.all(
           categories.map(async (category) => {
-            const response = await fetch(`/api/articles?category=${category}&limit=50`);
+            const response = await fetch(`/api/articles?category=${category}&limit=50&country=${countryCode}`);
             if (response.ok) {
               const data = await response.json();
               allArticles[category] = data.articles || [];
@@ -132,6 +132,7 @@ export default function HomePage() {
                     title={safeText(article.title)}
                     excerpt={safeText(article.description)}
                     image={article.image}
+                    imageSet={article.imageSet}
                     author="Editorial Team"
                     date={formatDate(article.pubDate)}
                     readTime="5 min read"
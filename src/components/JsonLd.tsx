@@ -0,0 +1,15 @@
+interface JsonLdProps {
+  data: object;
+}
+
+/**
+ * schema.org structured data; "<" is escaped so article text cannot close the script tag
+ */
+export default function JsonLd({ data }: JsonLdProps) {
+  return (
+    <script
+      type="application/ld+json"
+      dangerouslySetInnerHTML={{ __html: JSON.stringify(data).replace(/</g, '\\u003c') }}
+    />
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import { X, Search, User, Shield, LogOut, LogIn, UserPlus } from 'lucide-react';
 import styles from './Sidebar.module.css';
 import Link from 'next/link';
@@ -30,6 +30,7 @@ export default function Sidebar({ isOpen, onClose }: SidebarProps) {
     const { setSelectedCategory } = useCategory();
     const router = useRouter();
     const isAdmin = (session?.user as any)?.role === 'ADMIN';
+    const [searchQuery, setSearchQuery] = useState('');
 
     const handleCategoryClick = (category: string) => {
         setSelectedCategory(category);
@@ -37,6 +38,14 @@ export default function Sidebar({ isOpen, onClose }: SidebarProps) {
         onClose();
     };
 
+    const handleSearch = (e: React.FormEvent) => {
+        e.preventDefault();
+        const query = searchQuery.trim();
+        if (!query) return;
+        router.push(`/search?q=${encodeURIComponent(query)}`);
+        onClose();
+    };
+
     return (
         <>
             <div className={`${styles.overlay} ${isOpen ? styles.open : ''}`} onClick={onClose} />
@@ -94,10 +103,16 @@ export default function Sidebar({ isOpen, onClose }: SidebarProps) {
 
                     <div className={styles.divider}></div>
 
-                    <div className={styles.searchContainer}>
+                    <form className={styles.searchContainer} onSubmit={handleSearch} role="search">
                         <Search className={styles.searchIcon} size={18} />
-                        <input type="text" placeholder="Search articles" className={styles.searchInput} />
-                    </div>
+                        <input
+                            type="search"
+                            placeholder="Search articles"
+                            className={styles.searchInput}
+                            value={searchQuery}
+                            onChange={(e) => setSearchQuery(e.target.value)}
+                        />
+                    </form>
 
                     <div className={styles.navSection}>
                         <h2 className={styles.sectionTitle}>Blog Categories</h2>
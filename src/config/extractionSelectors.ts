@@ -0,0 +1,22 @@
+/**
+ * Per-host CSS selectors for full-article extraction (see src/lib/articleExtractor.ts)
+ *
+ * content matches the element(s) holding the article body; every match is used, in
+ * page order. remove drops nested boilerplate such as inline promos. Hosts match
+ * their subdomains too. EXTRACTION_SELECTORS (same JSON shape) adds or overrides hosts.
+ */
+
+export interface HostSelectors {
+  content: string;
+  remove?: string[];
+}
+
+export const EXTRACTION_SELECTORS: Record<string, HostSelectors> = {
+  'thehindu.com': { content: '.articlebodycontent', remove: ['.related-topics', '.comments', '.article-ad'] },
+  'theguardian.com': { content: '#maincontent', remove: ['figure', 'aside'] },
+  'bbc.com': { content: 'article [data-component="text-block"]' },
+  'bbc.co.uk': { content: 'article [data-component="text-block"]' },
+  'aljazeera.com': { content: '.wysiwyg', remove: ['.more-on', '.article-inline-ad'] },
+  'nytimes.com': { content: 'section[name="articleBody"]' },
+  'cnn.com': { content: '.article__content', remove: ['.related-content'] },
+};
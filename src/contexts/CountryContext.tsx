@@ -1,6 +1,6 @@
 'use client';
 
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
 import { CountryCode, ISO_TO_COUNTRY_CODE } from '@/config/multiTenantFeeds';
 
 interface CountryContextType {
@@ -65,10 +65,10 @@ export function CountryProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const setCountryCode = (code: CountryCode) => {
+  const setCountryCode = useCallback((code: CountryCode) => {
     setCountryCodeState(code);
     localStorage.setItem('user-country', code);
-  };
+  }, []);
 
   return (
     <CountryContext.Provider value={{ countryCode, setCountryCode, isLoading }}>
@@ -85,7 +85,7 @@ export function useCountry() {
   return context;
 }
 
-function isValidCountryCode(code: string): boolean {
+export function isValidCountryCode(code: string): code is CountryCode {
   const validCodes = [
     'INDIA', 'UNITED_STATES', 'UNITED_KINGDOM', 'AUSTRALIA',
     'CANADA', 'GERMANY', 'FRANCE', 'SPAIN', 'ITALY', 'NETHERLANDS',
@@ -0,0 +1,188 @@
+import * as cheerio from 'cheerio';
+import type { Cheerio, CheerioAPI } from 'cheerio';
+import type { AnyNode, Element } from 'domhandler';
+import { fetchWithLimits } from '@/lib/httpFetch';
+import { EXTRACTION_SELECTORS, HostSelectors } from '@/config/extractionSelectors';
+
+/**
+ * Full-article text extraction from publisher pages
+ *
+ * Sources with extractFullText set have each item's link fetched and the article
+ * body pulled out, so rewrites work from the story rather than a one-line feed
+ * description. Hosts listed in extractionSelectors.ts use their CSS selectors;
+ * other pages are scored readability-style (paragraph text, commas, class names,
+ * link density) and the best-scoring container wins.
+ */
+
+// Less text than this is treated as a failed extraction
+const MIN_TEXT_LENGTH = 250;
+const PAGE_MAX_BYTES = 3 * 1024 * 1024;
+
+const BOILERPLATE = 'script, style, noscript, template, iframe, svg, form, nav, header, footer, aside, button, select, figcaption';
+const TEXT_BLOCKS = 'p, h2, h3, h4, li, blockquote, pre';
+
+// Class and id hints, as used by Readability
+const NEGATIVE_HINTS = /comment|share|social|related|promo|newsletter|subscribe|advert|sponsor|sidebar|footer|cookie|popup|modal|outbrain|taboola|recommend|byline|breadcrumb/i;
+const POSITIVE_HINTS = /article|body|content|entry|main|post|story|text/i;
+
+function loadEnvSelectors(): Record<string, HostSelectors> {
+  const value = process.env.EXTRACTION_SELECTORS;
+  if (!value) return {};
+  try {
+    return JSON.parse(value);
+  } catch {
+    console.error('Ignoring invalid JSON in EXTRACTION_SELECTORS');
+    return {};
+  }
+}
+
+const SELECTORS: Record<string, HostSelectors> = { ...EXTRACTION_SELECTORS, ...loadEnvSelectors() };
+
+export interface ExtractedArticle {
+  text: string;
+  method: 'selector' | 'readability';
+}
+
+/**
+ * Selectors for a URL's host or the nearest parent domain that has some
+ */
+export function selectorsForUrl(url: string): HostSelectors | null {
+  let host: string;
+  try {
+    host = new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+
+  const labels = host.split('.');
+  for (let i = 0; i < labels.length - 1; i++) {
+    const selectors = SELECTORS[labels.slice(i).join('.')];
+    if (selectors) return selectors;
+  }
+  return null;
+}
+
+function normaliseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Text of the paragraphs, headings and list items under the given elements, one block per paragraph
+ */
+function collectText($: CheerioAPI, roots: Cheerio<AnyNode>): string {
+  const blocks: string[] = [];
+
+  roots.each((_, root) => {
+    const $root = $(root);
+    const elements = $root.is(TEXT_BLOCKS) ? $root : $root.find(TEXT_BLOCKS);
+
+    if (elements.length === 0) {
+      const text = normaliseWhitespace($root.text());
+      if (text) blocks.push(text);
+      return;
+    }
+
+    elements.each((_, element) => {
+      // Containers such as <li><p>..</p></li> are read through their inner blocks
+      if ($(element).find(TEXT_BLOCKS).length > 0) return;
+      const text = normaliseWhitespace($(element).text());
+      if (text) blocks.push(text);
+    });
+  });
+
+  return Array.from(new Set(blocks)).join('\n\n');
+}
+
+function hints($: CheerioAPI, element: Element): string {
+  const $element = $(element);
+  return `${$element.attr('class') || ''} ${$element.attr('id') || ''}`;
+}
+
+function extractWithSelectors($: CheerioAPI, selectors: HostSelectors): string {
+  const content = $(selectors.content);
+  content.find(BOILERPLATE).remove();
+  for (const selector of selectors.remove || []) {
+    content.find(selector).remove();
+  }
+  return collectText($, content);
+}
+
+function extractByScoring($: CheerioAPI): string {
+  $(BOILERPLATE).remove();
+
+  // Drop unlikely containers unless their names also suggest content
+  $('body *').each((_, element) => {
+    const names = hints($, element);
+    if (NEGATIVE_HINTS.test(names) && !POSITIVE_HINTS.test(names) && !$(element).is('article, main')) {
+      $(element).remove();
+    }
+  });
+
+  const scores = new Map<Element, number>();
+  const initialScore = (element: Element) => {
+    const names = hints($, element);
+    let score = $(element).is('article, main') ? 10 : 0;
+    if (POSITIVE_HINTS.test(names)) score += 25;
+    if (NEGATIVE_HINTS.test(names)) score -= 25;
+    return score;
+  };
+
+  $('p, pre').each((_, paragraph) => {
+    const text = normaliseWhitespace($(paragraph).text());
+    if (text.length < 25) return;
+
+    const score = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+    const parent = $(paragraph).parent().get(0);
+    const grandparent = $(paragraph).parent().parent().get(0);
+
+    if (parent) scores.set(parent, (scores.get(parent) ?? initialScore(parent)) + score);
+    if (grandparent) scores.set(grandparent, (scores.get(grandparent) ?? initialScore(grandparent)) + score / 2);
+  });
+
+  let best: Element | null = null;
+  let bestScore = 0;
+  for (const [element, score] of scores) {
+    const textLength = normaliseWhitespace($(element).text()).length || 1;
+    const linkLength = normaliseWhitespace($(element).find('a').text()).length;
+    const finalScore = score * (1 - linkLength / textLength);
+    if (finalScore > bestScore) {
+      best = element;
+      bestScore = finalScore;
+    }
+  }
+
+  return best ? collectText($, $(best)) : '';
+}
+
+/**
+ * Fetch an article page and extract its body text
+ * Returns null when the page cannot be fetched or yields too little text; never throws
+ */
+export async function extractArticleText(url: string): Promise<ExtractedArticle | null> {
+  try {
+    const page = await fetchWithLimits(url, {
+      headers: { Accept: 'text/html,application/xhtml+xml' },
+      maxBytes: PAGE_MAX_BYTES,
+    });
+    if (!page.ok) {
+      console.warn(`Article extraction skipped for ${url}: HTTP ${page.status}`);
+      return null;
+    }
+
+    // loadBuffer honours the page's declared charset
+    const $ = cheerio.loadBuffer(page.body);
+    const selectors = selectorsForUrl(page.url);
+
+    if (selectors) {
+      const text = extractWithSelectors($, selectors);
+      if (text.length >= MIN_TEXT_LENGTH) return { text, method: 'selector' };
+      console.warn(`Extraction selectors for ${new URL(page.url).hostname} matched too little text, falling back to scoring`);
+    }
+
+    const text = extractByScoring(cheerio.loadBuffer(page.body));
+    return text.length >= MIN_TEXT_LENGTH ? { text, method: 'readability' } : null;
+  } catch (error) {
+    console.warn(`Article extraction failed for ${url}:`, (error as Error).message);
+    return null;
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Editorial lifecycle for articles
+ *
+ * ingested  -> raw feed item stored, no AI rewrite yet (or the rewrite failed, see Article.aiError)
+ * drafted   -> AI rewrite exists, not yet queued for review
+ * in_review -> waiting for an editor in the admin review queue
+ * approved  -> signed off by an editor, not yet live
+ * published -> visible to readers (Article.published = true)
+ * rejected  -> discarded by an editor
+ */
+export const ARTICLE_STATUS = {
+  INGESTED: 'ingested',
+  DRAFTED: 'drafted',
+  IN_REVIEW: 'in_review',
+  APPROVED: 'approved',
+  PUBLISHED: 'published',
+  REJECTED: 'rejected',
+} as const;
+
+export type ArticleStatus = typeof ARTICLE_STATUS[keyof typeof ARTICLE_STATUS];
+
+// Statuses shown in the admin review queue
+export const REVIEW_QUEUE_STATUSES: ArticleStatus[] = [
+  ARTICLE_STATUS.INGESTED,
+  ARTICLE_STATUS.DRAFTED,
+  ARTICLE_STATUS.IN_REVIEW,
+  ARTICLE_STATUS.APPROVED,
+];
+
+const TRANSITIONS: Record<ArticleStatus, ArticleStatus[]> = {
+  // Editors may write up a feed item by hand when the AI rewrite failed
+  ingested: ['drafted', 'in_review', 'approved', 'published', 'rejected'],
+  drafted: ['in_review', 'approved', 'published', 'rejected'],
+  in_review: ['drafted', 'approved', 'published', 'rejected'],
+  approved: ['in_review', 'published', 'rejected'],
+  published: ['in_review', 'rejected'],
+  rejected: ['in_review'],
+};
+
+export function isArticleStatus(value: string): value is ArticleStatus {
+  return Object.prototype.hasOwnProperty.call(TRANSITIONS, value);
+}
+
+export function canTransition(from: string, to: ArticleStatus): boolean {
+  return isArticleStatus(from) && TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Prisma data for moving an article to a status, keeping the published flag in sync
+ */
+export function statusData(status: ArticleStatus) {
+  return {
+    status,
+    published: status === ARTICLE_STATUS.PUBLISHED,
+  };
+}
@@ -0,0 +1,126 @@
+import { prisma } from '@/lib/prisma';
+
+export const MAX_COMMENT_LENGTH = 2000;
+export const MAX_COMMENTS_PAGE_SIZE = 50;
+
+export interface PublicComment {
+  id: string;
+  content: string;
+  parentId: string | null;
+  createdAt: Date;
+  editedAt: Date | null;
+  deleted: boolean;
+  author: { id: string; name: string; image: string | null };
+  replies?: PublicComment[];
+}
+
+const commentSelect = {
+  id: true,
+  content: true,
+  parentId: true,
+  createdAt: true,
+  editedAt: true,
+  deletedAt: true,
+  author: { select: { id: true, name: true, image: true } },
+} as const;
+
+type SelectedComment = {
+  id: string;
+  content: string;
+  parentId: string | null;
+  createdAt: Date;
+  editedAt: Date | null;
+  deletedAt: Date | null;
+  author: { id: string; name: string | null; image: string | null };
+};
+
+/**
+ * Shape a comment for public output, blanking comments their author deleted
+ */
+export function toPublicComment(comment: SelectedComment): PublicComment {
+  const deleted = comment.deletedAt !== null;
+  return {
+    id: comment.id,
+    content: deleted ? '' : comment.content,
+    parentId: comment.parentId,
+    createdAt: comment.createdAt,
+    editedAt: comment.editedAt,
+    deleted,
+    author: deleted
+      ? { id: '', name: 'Deleted', image: null }
+      : { id: comment.author.id, name: comment.author.name || 'Reader', image: comment.author.image },
+  };
+}
+
+/**
+ * Validate comment text, returning the trimmed content or an error message
+ */
+export function validateCommentContent(content: unknown): { content: string } | { error: string } {
+  if (typeof content !== 'string' || !content.trim()) {
+    return { error: 'Comment cannot be empty' };
+  }
+  if (content.length > MAX_COMMENT_LENGTH) {
+    return { error: `Comment must be at most ${MAX_COMMENT_LENGTH} characters` };
+  }
+  return { content: content.trim() };
+}
+
+/**
+ * Paginated top-level comments for an article, each with its visible replies
+ * Hidden comments (and replies under them) are left out
+ */
+export async function getArticleComments(articleId: string, page: number, limit: number) {
+  const take = Math.min(Math.max(limit, 1), MAX_COMMENTS_PAGE_SIZE);
+  const skip = (Math.max(page, 1) - 1) * take;
+  const where = { articleId, parentId: null, hidden: false };
+
+  const [comments, total] = await Promise.all([
+    prisma.comment.findMany({
+      where,
+      select: {
+        ...commentSelect,
+        replies: {
+          where: { hidden: false },
+          select: commentSelect,
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+      skip,
+      take,
+    }),
+    prisma.comment.count({ where }),
+  ]);
+
+  return {
+    comments: comments.map(({ replies, ...comment }) => ({
+      ...toPublicComment(comment),
+      replies: replies.map(toPublicComment),
+    })),
+    pagination: {
+      page: Math.max(page, 1),
+      limit: take,
+      total,
+      totalPages: Math.ceil(total / take),
+      hasMore: skip + comments.length < total,
+    },
+  };
+}
+
+/**
+ * Delete a comment on behalf of its author
+ * Comments with replies are blanked instead so the thread stays readable
+ */
+export async function deleteCommentByAuthor(commentId: string): Promise<void> {
+  const replies = await prisma.comment.count({ where: { parentId: commentId } });
+
+  if (replies > 0) {
+    await prisma.comment.update({
+      where: { id: commentId },
+      data: { deletedAt: new Date(), content: '' },
+    });
+    return;
+  }
+
+  await prisma.comment.delete({ where: { id: commentId } });
+}
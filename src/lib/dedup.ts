@@ -0,0 +1,147 @@
+import { prisma } from '@/lib/prisma';
+
+/**
+ * Near-duplicate detection with MinHash signatures and LSH banding
+ *
+ * Each article gets a MinHash signature over the content words of its original
+ * title and text. The signature is cut into bands; articles sharing any band hash
+ * are candidates (found through a GIN index), and the fraction of equal signature
+ * slots estimates their Jaccard similarity.
+ */
+
+const NUM_HASHES = 64;
+const ROWS_PER_BAND = 2;
+const NUM_BANDS = NUM_HASHES / ROWS_PER_BAND;
+
+// Estimated Jaccard similarity at which two articles count as the same story
+export const STORY_SIMILARITY_THRESHOLD = parseFloat(process.env.DEDUP_STORY_THRESHOLD || '0.3');
+
+// How far back to look for matching stories
+const LOOKBACK_DAYS = 7;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was', 'one',
+  'our', 'out', 'has', 'him', 'his', 'how', 'its', 'may', 'new', 'now', 'old', 'see', 'two', 'who',
+  'did', 'get', 'let', 'say', 'she', 'too', 'use', 'said', 'says', 'that', 'with', 'have', 'this',
+  'will', 'your', 'from', 'they', 'been', 'were', 'what', 'when', 'where', 'which', 'while', 'their',
+  'there', 'them', 'then', 'than', 'into', 'over', 'also', 'after', 'about', 'would', 'could',
+  'should', 'more', 'most', 'some', 'such', 'only', 'other', 'just', 'like', 'very', 'being', 'those',
+  'these', 'here', 'amid', 'during', 'against', 'under', 'between', 'because', 'before',
+]);
+
+export interface ContentFingerprint {
+  signature: number[];
+  bands: string[];
+}
+
+// FNV-1a, 32-bit
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// MurmurHash3 finalizer, used to derive independent hash functions from one seed each
+function mix(value: number): number {
+  let h = value;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+// Fixed seeds so signatures stay comparable across deployments
+const SEEDS = Array.from({ length: NUM_HASHES }, (_, i) => mix(0x9e3779b9 + i * 0x632be5ab));
+
+/**
+ * Normalised content words: lowercase, punctuation stripped, short words and stopwords dropped
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 2 && !STOPWORDS.has(word));
+}
+
+/**
+ * MinHash signature and band hashes for an article's original title and text
+ * Single-word shingles keep retellings of the same story with different phrasing close together
+ */
+export function computeFingerprint(title: string, text: string): ContentFingerprint | null {
+  // A set, so title and text words count once each; the signatures are unweighted
+  const shingles = new Set(tokenize(`${title} ${text}`));
+  if (shingles.size === 0) return null;
+
+  const shingleHashes = Array.from(shingles, hashString);
+  const signature = SEEDS.map(seed => {
+    let min = 0xffffffff;
+    for (const h of shingleHashes) {
+      const value = mix(h ^ seed);
+      if (value < min) min = value;
+    }
+    // Stored in a Postgres int4 column
+    return min | 0;
+  });
+
+  const bands: string[] = [];
+  for (let b = 0; b < NUM_BANDS; b++) {
+    const rows = signature.slice(b * ROWS_PER_BAND, (b + 1) * ROWS_PER_BAND);
+    bands.push(`${b}:${hashString(rows.join(',')).toString(36)}`);
+  }
+
+  return { signature, bands };
+}
+
+/**
+ * Estimated Jaccard similarity of two signatures
+ */
+export function estimateSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let equal = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return equal / a.length;
+}
+
+export interface StoryMatch {
+  articleId: string;
+  // Story cluster of the matched article, if it has one
+  storyClusterId: string | null;
+  similarity: number;
+}
+
+/**
+ * Find the closest recent article telling the same story, if any
+ */
+export async function findStoryMatch(fingerprint: ContentFingerprint): Promise<StoryMatch | null> {
+  const since = new Date(Date.now() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+  const candidates = await prisma.article.findMany({
+    where: {
+      fingerprintBands: { hasSome: fingerprint.bands },
+      createdAt: { gte: since },
+    },
+    select: { id: true, fingerprint: true, storyClusterId: true },
+  });
+
+  let best: StoryMatch | null = null;
+  for (const candidate of candidates) {
+    const similarity = estimateSimilarity(fingerprint.signature, candidate.fingerprint);
+    if (similarity >= STORY_SIMILARITY_THRESHOLD && (!best || similarity > best.similarity)) {
+      best = {
+        articleId: candidate.id,
+        storyClusterId: candidate.storyClusterId,
+        similarity,
+      };
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,174 @@
+/**
+ * Fact-preservation checks for AI rewrites
+ *
+ * Extracts numbers, dates, quoted strings and capitalised entities from the
+ * original feed text and from the rewrite, and reports anything the rewrite
+ * dropped (missing) or introduced (invented).
+ */
+
+export interface ExtractedFacts {
+  numbers: string[];
+  dates: string[];
+  quotes: string[];
+  entities: string[];
+}
+
+export interface FactCheckReport {
+  passed: boolean;
+  missing: ExtractedFacts;
+  invented: ExtractedFacts;
+  checkedAt: string;
+}
+
+// Rewrites may rename or add entities for context: at least MIN_ENTITY_ISSUES,
+// plus one more for every ENTITY_ISSUE_WORDS words of rewrite, before the check fails
+const MIN_ENTITY_ISSUES = 2;
+const ENTITY_ISSUE_WORDS = 150;
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+const MONTH_PATTERN = '(Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)\\.?';
+const DATE_MONTH_FIRST = new RegExp(`\\b${MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b`, 'gi');
+const DATE_DAY_FIRST = new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_PATTERN}\\b`, 'gi');
+
+// Capitalised words that start sentences or headlines without naming anything
+const COMMON_CAPITALISED = new Set([
+  'the', 'a', 'an', 'and', 'but', 'or', 'in', 'on', 'at', 'as', 'by', 'for', 'from', 'of', 'to', 'with',
+  'this', 'that', 'these', 'those', 'it', 'its', 'he', 'she', 'they', 'we', 'i', 'his', 'her', 'their',
+  'our', 'after', 'before', 'while', 'when', 'where', 'what', 'why', 'how', 'however', 'meanwhile',
+  'also', 'according', 'officials', 'there', 'here', 'if', 'so', 'yet', 'now', 'today', 'yesterday',
+  'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday', ...MONTHS,
+]);
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
+
+// Case- and whitespace-insensitive form used for comparisons
+function normalise(text: string): string {
+  return text.toLowerCase().replace(/[’‘]/g, "'").replace(/\s+/g, ' ').trim();
+}
+
+function monthIndex(name: string): number {
+  return MONTHS.findIndex(month => month.startsWith(name.toLowerCase().replace('.', '').slice(0, 3)));
+}
+
+function extractNumbers(text: string): string[] {
+  // "6.5 per cent" and "6.5%" are the same figure
+  const percentNormalised = text.replace(/(\d)\s*(?:per\s*cent|percent)\b/gi, '$1%');
+  // Ignore single digits, which rewrites routinely spell out ("three")
+  const matches = percentNormalised.match(/\d[\d,]*(?:\.\d+)?%?/g) || [];
+  return unique(
+    matches
+      .map(m => m.replace(/,/g, '').replace(/\.$/, ''))
+      .filter(m => m.replace('%', '').length > 1 || m.includes('.'))
+  );
+}
+
+function extractDates(text: string): string[] {
+  const dates: string[] = [];
+  for (const match of text.matchAll(DATE_MONTH_FIRST)) {
+    dates.push(`${MONTHS[monthIndex(match[1])]} ${parseInt(match[2])}`);
+  }
+  for (const match of text.matchAll(DATE_DAY_FIRST)) {
+    dates.push(`${MONTHS[monthIndex(match[2])]} ${parseInt(match[1])}`);
+  }
+  return unique(dates);
+}
+
+function extractQuotes(text: string): string[] {
+  const matches = text.match(/["“]([^"“”]{12,}?)["”]/g) || [];
+  return unique(
+    matches
+      .map(m => normalise(m.slice(1, -1)).replace(/[.,!?;:]+$/, ''))
+      .filter(q => q.split(' ').length >= 3)
+  );
+}
+
+function extractEntities(text: string): string[] {
+  const entities: string[] = [];
+  const pattern = /\b[A-Z][\p{L}'’-]*(?:\s+(?:of\s+|the\s+|de\s+)?[A-Z][\p{L}'’-]*)*/gu;
+
+  for (const match of text.matchAll(pattern)) {
+    const words = match[0].split(/\s+/);
+
+    // Any word is capitalised at the start of a sentence ("Speaking", "Economists"),
+    // so a sentence's first word is only kept as part of a longer name
+    const before = text.substring(0, match.index);
+    if (before.trim() === '' || /(?:[.!?]["”’)]?\s+|\n\s*)$/.test(before)) {
+      words.shift();
+    }
+
+    // Drop leading sentence-starter words ("The", "However") and keep the rest
+    while (words.length > 0 && COMMON_CAPITALISED.has(words[0].toLowerCase())) {
+      words.shift();
+    }
+    if (words.length === 0) continue;
+
+    const entity = words.join(' ').replace(/['’]s$/, '');
+    if (entity.length > 1) entities.push(entity);
+  }
+
+  return unique(entities);
+}
+
+export function extractFacts(text: string): ExtractedFacts {
+  return {
+    numbers: extractNumbers(text),
+    dates: extractDates(text),
+    quotes: extractQuotes(text),
+    entities: extractEntities(text),
+  };
+}
+
+/**
+ * Compare the facts in an original article and its rewrite
+ * Fails on any missing or invented number, date or quote, or on more entity changes than the rewrite's length allows
+ */
+export function checkFactPreservation(
+  original: { title: string; content: string },
+  rewrite: { title: string; content: string; excerpt?: string | null }
+): FactCheckReport {
+  const originalText = `${original.title}\n${original.content}`;
+  const rewriteText = `${rewrite.title}\n${rewrite.content}\n${rewrite.excerpt || ''}`;
+
+  // Title-case headlines would read as one long entity, so entities come from the body only
+  const source = { ...extractFacts(originalText), entities: extractEntities(original.content) };
+  const result = { ...extractFacts(rewriteText), entities: extractEntities(`${rewrite.content}\n${rewrite.excerpt || ''}`) };
+  const originalNormalised = normalise(originalText);
+  const rewriteNormalised = normalise(rewriteText);
+
+  // Quotes match anywhere in the other text; entities match when each of their words appears,
+  // so reordered or split names ("Das of the Reserve Bank") are not flagged
+  const mentions = (text: string, entity: string) =>
+    normalise(entity).split(' ').filter(word => !COMMON_CAPITALISED.has(word)).every(word => text.includes(word));
+
+  const missing: ExtractedFacts = {
+    numbers: source.numbers.filter(n => !result.numbers.includes(n)),
+    dates: source.dates.filter(d => !result.dates.includes(d)),
+    quotes: source.quotes.filter(q => !rewriteNormalised.includes(q)),
+    entities: source.entities.filter(e => !mentions(rewriteNormalised, e)),
+  };
+  const invented: ExtractedFacts = {
+    numbers: result.numbers.filter(n => !source.numbers.includes(n)),
+    dates: result.dates.filter(d => !source.dates.includes(d)),
+    quotes: result.quotes.filter(q => !originalNormalised.includes(q)),
+    entities: result.entities.filter(e => !mentions(originalNormalised, e)),
+  };
+
+  const hardIssues = [missing, invented].some(facts =>
+    facts.numbers.length > 0 || facts.dates.length > 0 || facts.quotes.length > 0
+  );
+  const entityIssues = missing.entities.length + invented.entities.length;
+  const rewriteWords = rewriteText.split(/\s+/).filter(Boolean).length;
+  const maxEntityIssues = Math.max(MIN_ENTITY_ISSUES, Math.floor(rewriteWords / ENTITY_ISSUE_WORDS));
+
+  return {
+    passed: !hardIssues && entityIssues <= maxEntityIssues,
+    missing,
+    invented,
+    checkedAt: new Date().toISOString(),
+  };
+}
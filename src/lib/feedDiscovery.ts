@@ -0,0 +1,183 @@
+import { fetchWithLimits } from '@/lib/httpFetch';
+import { FeedFormat, fetchFeed, parseFeedBody } from '@/lib/rssParser';
+import { RSSFeed } from '@/types/rss';
+
+/**
+ * Feed autodiscovery for "add by website"
+ *
+ * Given a site (or a feed) URL, finds candidate feeds from the page's
+ * <link rel="alternate"> tags and a list of common feed paths, and keeps the
+ * ones that actually download and parse as RSS, Atom or JSON Feed.
+ */
+
+export interface DiscoveredFeed {
+  url: string;
+  title: string | null;
+  format: FeedFormat;
+  itemCount: number;
+  latestItemAt: string | null;
+  // How the feed was found
+  via: 'direct' | 'link' | 'path';
+}
+
+const FEED_LINK_TYPES = [
+  'application/rss+xml',
+  'application/atom+xml',
+  'application/feed+json',
+  'application/json',
+  'application/rdf+xml',
+];
+
+const COMMON_FEED_PATHS = [
+  '/feed',
+  '/feed/',
+  '/rss',
+  '/rss.xml',
+  '/feed.xml',
+  '/atom.xml',
+  '/index.xml',
+  '/feed.json',
+  '/rss/index.rss',
+  '/feeds/posts/default',
+];
+
+const PAGE_TIMEOUT_MS = 10000;
+const PAGE_MAX_BYTES = 2 * 1024 * 1024;
+
+/**
+ * Accept bare hostnames ("example.com") as well as full URLs
+ */
+export function normaliseSiteUrl(input: string): string | null {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+
+  try {
+    const url = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g)) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+  }
+  return attributes;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&amp;/g, '&')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>');
+}
+
+/**
+ * Feed URLs advertised in a page's <link rel="alternate" type="..."> tags, resolved against the page URL
+ */
+export function findFeedLinks(html: string, pageUrl: string): string[] {
+  const head = html.split(/<\/head>/i)[0];
+  const urls: string[] = [];
+
+  for (const match of head.matchAll(/<link\b[^>]*>/gi)) {
+    const attributes = parseAttributes(match[0]);
+    const rel = (attributes.rel || '').toLowerCase().split(/\s+/);
+    const type = (attributes.type || '').toLowerCase().split(';')[0].trim();
+
+    if (!rel.includes('alternate') || !FEED_LINK_TYPES.includes(type) || !attributes.href) continue;
+
+    try {
+      urls.push(new URL(decodeEntities(attributes.href), pageUrl).toString());
+    } catch {
+      // Unresolvable href
+    }
+  }
+
+  return Array.from(new Set(urls));
+}
+
+function describeFeed(url: string, feed: RSSFeed, format: FeedFormat, via: DiscoveredFeed['via']): DiscoveredFeed {
+  const latest = feed.items
+    .map(item => new Date(item.isoDate || item.pubDate || 0).getTime())
+    .filter(time => time > 0)
+    .sort((a, b) => b - a)[0];
+
+  return {
+    url,
+    title: feed.title?.trim() || null,
+    format,
+    itemCount: feed.items.length,
+    latestItemAt: latest ? new Date(latest).toISOString() : null,
+    via,
+  };
+}
+
+async function probeFeed(url: string, via: DiscoveredFeed['via']): Promise<DiscoveredFeed | null> {
+  try {
+    const { feed, format } = await fetchFeed(url);
+    if (!feed || !format || feed.items.length === 0) return null;
+    return describeFeed(url, feed, format, via);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find working feeds for a website, advertised feeds first
+ * A URL that is itself a feed is returned on its own
+ * @throws Error when the URL is invalid or the page cannot be loaded
+ */
+export async function discoverFeeds(input: string): Promise<DiscoveredFeed[]> {
+  const siteUrl = normaliseSiteUrl(input);
+  if (!siteUrl) {
+    throw new Error('Enter a website address such as example.com');
+  }
+
+  const page = await fetchWithLimits(siteUrl, {
+    headers: { Accept: 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.5' },
+    timeoutMs: PAGE_TIMEOUT_MS,
+    maxBytes: PAGE_MAX_BYTES,
+  });
+  if (!page.ok) {
+    throw new Error(`Could not load ${siteUrl} (HTTP ${page.status})`);
+  }
+
+  const body = page.body.toString('utf8');
+  const contentType = page.headers.get('content-type');
+
+  // The admin may have pasted a feed URL directly
+  if (!/html/i.test(contentType || '')) {
+    try {
+      const { feed, format } = await parseFeedBody(body, contentType);
+      if (feed.items.length > 0) return [describeFeed(page.url, feed, format, 'direct')];
+    } catch {
+      // Not a feed either; fall through to the page's links
+    }
+  }
+
+  const linked = findFeedLinks(body, page.url);
+  const origin = new URL(page.url).origin;
+  const guessed = COMMON_FEED_PATHS
+    .map(path => `${origin}${path}`)
+    .filter(url => !linked.includes(url));
+
+  const candidates = await Promise.all([
+    ...linked.map(url => probeFeed(url, 'link')),
+    ...guessed.map(url => probeFeed(url, 'path')),
+  ]);
+
+  // Common paths often serve the advertised feed again; keep one entry per feed
+  const seen = new Set<string>();
+  return candidates.filter((feed): feed is DiscoveredFeed => {
+    if (!feed) return false;
+    const key = `${feed.title}|${feed.itemCount}|${feed.latestItemAt}`;
+    if (seen.has(feed.url) || (feed.via === 'path' && seen.has(key))) return false;
+    seen.add(feed.url);
+    seen.add(key);
+    return true;
+  });
+}
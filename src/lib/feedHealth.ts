@@ -0,0 +1,172 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+
+/**
+ * Feed health and automatic quarantine
+ *
+ * Every fetch of a NewsSource feed is recorded as a FeedCheck and rolled up on the
+ * source. After FEED_QUARANTINE_AFTER consecutive failures the source is quarantined:
+ * scheduled runs skip it except for a probe every FEED_PROBE_BASE_MINUTES, doubling
+ * per further failure up to a week. One successful fetch makes it healthy again.
+ */
+
+const QUARANTINE_AFTER = parseInt(process.env.FEED_QUARANTINE_AFTER || '5');
+const PROBE_BASE_MS = parseInt(process.env.FEED_PROBE_BASE_MINUTES || '60') * 60 * 1000;
+const PROBE_MAX_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Weight of the latest fetch in the item count moving average
+const ITEM_COUNT_SMOOTHING = 0.2;
+
+export const FEED_HEALTH = {
+  HEALTHY: 'healthy',
+  FAILING: 'failing',
+  QUARANTINED: 'quarantined',
+} as const;
+
+export type FeedHealth = typeof FEED_HEALTH[keyof typeof FEED_HEALTH];
+
+export type FeedErrorType = 'http' | 'network' | 'timeout' | 'too_large' | 'blocked' | 'parse' | 'empty';
+
+/**
+ * A feed that could not be fetched or had nothing in it
+ */
+export class FeedFetchError extends Error {
+  type: FeedErrorType;
+  httpStatus?: number;
+
+  constructor(type: FeedErrorType, message: string, httpStatus?: number) {
+    super(message);
+    this.name = 'FeedFetchError';
+    this.type = type;
+    this.httpStatus = httpStatus;
+  }
+}
+
+/**
+ * Delay before the next probe of a quarantined source
+ */
+function probeDelayMs(consecutiveFailures: number): number {
+  const probes = Math.max(consecutiveFailures - QUARANTINE_AFTER, 0);
+  return Math.min(PROBE_BASE_MS * Math.pow(2, probes), PROBE_MAX_MS);
+}
+
+/**
+ * Record a successful fetch and clear any failure state
+ * itemCount is null for a 304, which leaves the item count average alone
+ */
+export async function recordFeedSuccess(
+  sourceId: string,
+  check: { httpStatus: number; itemCount: number | null; bytes: number; durationMs: number }
+): Promise<void> {
+  const source = await prisma.newsSource.findUnique({
+    where: { id: sourceId },
+    select: { avgItemCount: true },
+  });
+  if (!source) return;
+
+  let avgItemCount = source.avgItemCount;
+  if (check.itemCount !== null) {
+    avgItemCount = avgItemCount === null
+      ? check.itemCount
+      : avgItemCount + ITEM_COUNT_SMOOTHING * (check.itemCount - avgItemCount);
+  }
+
+  await prisma.$transaction([
+    prisma.feedCheck.create({
+      data: { sourceId, ok: true, ...check },
+    }),
+    prisma.newsSource.update({
+      where: { id: sourceId },
+      data: {
+        health: FEED_HEALTH.HEALTHY,
+        consecutiveFailures: 0,
+        lastSuccessAt: new Date(),
+        lastHttpStatus: check.httpStatus,
+        avgItemCount,
+        quarantinedAt: null,
+        nextProbeAt: null,
+      },
+    }),
+  ]);
+}
+
+/**
+ * Record a failed fetch; quarantines the source once failures reach the threshold
+ * Returns the source's health after the failure
+ */
+export async function recordFeedFailure(
+  sourceId: string,
+  error: Error,
+  durationMs: number
+): Promise<FeedHealth | null> {
+  const source = await prisma.newsSource.findUnique({
+    where: { id: sourceId },
+    select: { consecutiveFailures: true, quarantinedAt: true },
+  });
+  if (!source) return null;
+
+  const feedError = error instanceof FeedFetchError ? error : null;
+  const consecutiveFailures = source.consecutiveFailures + 1;
+  const quarantined = consecutiveFailures >= QUARANTINE_AFTER;
+  const now = new Date();
+
+  await prisma.$transaction([
+    prisma.feedCheck.create({
+      data: {
+        sourceId,
+        ok: false,
+        // Anything other than a FeedFetchError failed before a response arrived
+        errorType: feedError?.type || 'network',
+        error: error.message,
+        httpStatus: feedError?.httpStatus,
+        durationMs,
+      },
+    }),
+    prisma.newsSource.update({
+      where: { id: sourceId },
+      data: {
+        health: quarantined ? FEED_HEALTH.QUARANTINED : FEED_HEALTH.FAILING,
+        consecutiveFailures,
+        lastErrorAt: now,
+        lastError: error.message,
+        lastHttpStatus: feedError?.httpStatus ?? null,
+        quarantinedAt: quarantined ? source.quarantinedAt || now : null,
+        nextProbeAt: quarantined ? new Date(now.getTime() + probeDelayMs(consecutiveFailures)) : null,
+      },
+    }),
+  ]);
+
+  if (quarantined && !source.quarantinedAt) {
+    console.warn(`Feed source ${sourceId} quarantined after ${consecutiveFailures} consecutive failures: ${error.message}`);
+  }
+
+  return quarantined ? FEED_HEALTH.QUARANTINED : FEED_HEALTH.FAILING;
+}
+
+/**
+ * Sources a scheduled run should fetch: everything not quarantined, plus quarantined sources due a probe
+ */
+export function dueForFetchWhere(now: Date = new Date()): Prisma.NewsSourceWhereInput {
+  return {
+    OR: [
+      { health: { not: FEED_HEALTH.QUARANTINED } },
+      { nextProbeAt: null },
+      { nextProbeAt: { lte: now } },
+    ],
+  };
+}
+
+export function isDueForFetch(source: { health: string; nextProbeAt: Date | null }, now: Date = new Date()): boolean {
+  return source.health !== FEED_HEALTH.QUARANTINED || !source.nextProbeAt || source.nextProbeAt <= now;
+}
+
+/**
+ * Most recent fetch attempts for a source, newest first
+ */
+export async function getFeedCheckHistory(sourceId: string, limit: number = 50) {
+  return prisma.feedCheck.findMany({
+    where: { sourceId },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  });
+}
@@ -0,0 +1,219 @@
+import { LookupAddress, LookupOptions, lookup } from 'dns';
+import { BlockList, isIP } from 'net';
+import { Agent, Headers, Response, fetch } from 'undici';
+import { SITE_NAME, SITE_URL } from '@/lib/site';
+
+/**
+ * Outbound HTTP for ingestion
+ *
+ * Requests to feeds and publisher sites go through fetchWithLimits, which sends our
+ * User-Agent (FETCH_USER_AGENT), gives up after a timeout and stops reading bodies
+ * larger than a limit, so one slow or huge response cannot stall a worker.
+ *
+ * URLs come from feeds and publisher pages, so they are untrusted: hosts that resolve
+ * to private, loopback, link-local or cloud metadata addresses are refused, and
+ * redirects are followed one hop at a time so every hop is checked the same way.
+ * The check runs in the connection's own DNS lookup, so the address that was checked
+ * is the one connected to, and a host cannot answer differently a second time.
+ */
+
+export const USER_AGENT = process.env.FETCH_USER_AGENT || `${SITE_NAME.replace(/\s+/g, '')}Bot/1.0 (+${SITE_URL})`;
+const DEFAULT_TIMEOUT_MS = parseInt(process.env.FETCH_TIMEOUT_MS || '15000');
+const DEFAULT_MAX_BYTES = parseInt(process.env.FETCH_MAX_BYTES || String(5 * 1024 * 1024));
+const MAX_REDIRECTS = 5;
+// For local development against feeds served from this machine or the LAN
+const ALLOW_PRIVATE_HOSTS = process.env.FETCH_ALLOW_PRIVATE_HOSTS === 'true';
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+// Addresses that are not on the public internet, see RFC 6890
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // link-local, including the 169.254.169.254 metadata service
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['::ffff:0:0', 96], // IPv4-mapped, which would bypass the IPv4 ranges
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export type HttpFetchErrorType = 'network' | 'timeout' | 'too_large' | 'blocked';
+
+/**
+ * A request that failed before a complete response was read
+ */
+export class HttpFetchError extends Error {
+  type: HttpFetchErrorType;
+
+  constructor(type: HttpFetchErrorType, message: string) {
+    super(message);
+    this.name = 'HttpFetchError';
+    this.type = type;
+  }
+}
+
+export interface LimitedResponse {
+  status: number;
+  ok: boolean;
+  headers: Headers;
+  // Final URL after redirects
+  url: string;
+  // Empty for non-2xx responses
+  body: Buffer;
+}
+
+export interface FetchLimits {
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  maxBytes?: number;
+}
+
+function isBlockedAddress(address: string, family: number): boolean {
+  return !ALLOW_PRIVATE_HOSTS && BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+type LookupCallback = (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void;
+
+/**
+ * dns.lookup for outbound connections that fails when the host resolves to a non-public address
+ * Every address is checked, as the connection may use any of them
+ */
+function publicLookup(hostname: string, options: LookupOptions, callback: LookupCallback): void {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, []);
+
+    const blocked = addresses.find(({ address, family }) => isBlockedAddress(address, family));
+    if (blocked) {
+      return callback(new HttpFetchError('blocked', `${hostname} resolves to a non-public address (${blocked.address})`), []);
+    }
+
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+const PUBLIC_ONLY_AGENT = new Agent({ connect: { lookup: publicLookup } });
+
+/**
+ * Refuse URLs that are not http(s) or that name a non-public IP address
+ * Hostnames are checked when they are resolved, by publicLookup
+ * @throws HttpFetchError
+ */
+function assertPublicUrl(url: URL): void {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new HttpFetchError('blocked', `Unsupported protocol ${url.protocol}`);
+  }
+
+  // IP literals are connected to without a lookup
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  const family = isIP(hostname);
+  if (family && isBlockedAddress(hostname, family)) {
+    throw new HttpFetchError('blocked', `${hostname} is a non-public address`);
+  }
+}
+
+/**
+ * GET a URL with a timeout and a response size limit
+ * Non-2xx responses are returned without their body; only transport problems and blocked hosts throw
+ * @throws HttpFetchError
+ */
+export async function fetchWithLimits(url: string, limits: FetchLimits = {}): Promise<LimitedResponse> {
+  const timeoutMs = limits.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxBytes = limits.maxBytes ?? DEFAULT_MAX_BYTES;
+  const signal = AbortSignal.timeout(timeoutMs);
+
+  const timedOut = () => new HttpFetchError('timeout', `No complete response within ${timeoutMs}ms`);
+
+  let current: URL;
+  try {
+    current = new URL(url);
+  } catch {
+    throw new HttpFetchError('blocked', `Invalid URL ${url}`);
+  }
+
+  let response: Response;
+  for (let redirects = 0; ; redirects++) {
+    assertPublicUrl(current);
+
+    try {
+      response = await fetch(current, {
+        headers: { 'User-Agent': USER_AGENT, ...limits.headers },
+        redirect: 'manual',
+        signal,
+        dispatcher: PUBLIC_ONLY_AGENT,
+      });
+    } catch (error) {
+      if (signal.aborted) throw timedOut();
+      // fetch wraps connection errors, including a blocked lookup, as its cause
+      const cause = (error as Error).cause;
+      if (cause instanceof HttpFetchError) throw cause;
+      throw new HttpFetchError('network', (error as Error).message);
+    }
+
+    const location = response.headers.get('location');
+    if (!REDIRECT_STATUSES.includes(response.status) || !location) break;
+
+    await response.body?.cancel().catch(() => undefined);
+    if (redirects >= MAX_REDIRECTS) {
+      throw new HttpFetchError('network', `More than ${MAX_REDIRECTS} redirects`);
+    }
+    try {
+      current = new URL(location, current);
+    } catch {
+      throw new HttpFetchError('network', `Invalid redirect location ${location}`);
+    }
+  }
+
+  const result = { status: response.status, ok: response.ok, headers: response.headers, url: current.toString() };
+
+  if (!response.ok || !response.body) {
+    await response.body?.cancel().catch(() => undefined);
+    return { ...result, body: Buffer.alloc(0) };
+  }
+
+  const declared = parseInt(response.headers.get('content-length') || '');
+  if (declared > maxBytes) {
+    await response.body.cancel().catch(() => undefined);
+    throw new HttpFetchError('too_large', `Response is ${declared} bytes, over the ${maxBytes} byte limit`);
+  }
+
+  // Content-Length may be missing or wrong, so the limit is also enforced while reading
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      received += value.byteLength;
+      if (received > maxBytes) {
+        await reader.cancel().catch(() => undefined);
+        throw new HttpFetchError('too_large', `Response exceeded the ${maxBytes} byte limit`);
+      }
+      chunks.push(value);
+    }
+  } catch (error) {
+    if (error instanceof HttpFetchError) throw error;
+    if (signal.aborted) throw timedOut();
+    throw new HttpFetchError('network', (error as Error).message);
+  }
+
+  return { ...result, body: Buffer.concat(chunks) };
+}
@@ -0,0 +1,202 @@
+import { createHash } from 'crypto';
+import sharp from 'sharp';
+import type { ImageAsset } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { fetchWithLimits, HttpFetchError } from '@/lib/httpFetch';
+import { getImageStorage } from '@/lib/imageStorage';
+import type { ResponsiveImage } from '@/types/image';
+
+/**
+ * Article image pipeline
+ *
+ * Instead of hotlinking the image a feed points at, ingestion downloads it, checks
+ * its type, size and dimensions, and stores WebP variants at IMAGE_VARIANT_WIDTHS
+ * through the image storage adapter, together with a tiny blur placeholder.
+ * Images are content-addressed, so one picture used by several articles is stored once.
+ */
+
+const MAX_BYTES = parseInt(process.env.IMAGE_MAX_BYTES || String(10 * 1024 * 1024));
+const MIN_WIDTH = parseInt(process.env.IMAGE_MIN_WIDTH || '400');
+const MIN_HEIGHT = parseInt(process.env.IMAGE_MIN_HEIGHT || '200');
+const VARIANT_WIDTHS = (process.env.IMAGE_VARIANT_WIDTHS || '480,960,1600')
+  .split(',')
+  .map(width => parseInt(width))
+  .filter(width => width > 0)
+  .sort((a, b) => a - b);
+
+// Decompression bomb guard, applied before any pixels are decoded
+const MAX_PIXELS = 50_000_000;
+// Wider or taller than this is a banner or a strip, not a hero image
+const MAX_ASPECT_RATIO = 4;
+const WEBP_QUALITY = 80;
+const BLUR_WIDTH = 16;
+
+const ALLOWED_FORMATS = ['jpeg', 'png', 'webp', 'gif', 'avif'];
+const IMAGE_ACCEPT = 'image/avif,image/webp,image/png,image/jpeg,image/gif;q=0.8';
+
+export type ImageRejectReason = 'fetch' | 'type' | 'size' | 'dimensions' | 'decode';
+
+/**
+ * An image that could not be downloaded or failed validation
+ */
+export class ImageRejectedError extends Error {
+  reason: ImageRejectReason;
+
+  constructor(reason: ImageRejectReason, message: string) {
+    super(message);
+    this.name = 'ImageRejectedError';
+    this.reason = reason;
+  }
+}
+
+async function download(url: string): Promise<Buffer> {
+  if (!/^https?:\/\//i.test(url)) {
+    throw new ImageRejectedError('fetch', 'Only http and https image URLs are supported');
+  }
+
+  try {
+    const response = await fetchWithLimits(url, { headers: { Accept: IMAGE_ACCEPT }, maxBytes: MAX_BYTES });
+    if (!response.ok) {
+      throw new ImageRejectedError('fetch', `HTTP ${response.status}`);
+    }
+
+    // Some CDNs send images as octet-stream; the bytes are checked by sharp below either way
+    const contentType = response.headers.get('content-type') || '';
+    if (contentType && !/^(image\/|application\/octet-stream|binary\/)/i.test(contentType)) {
+      throw new ImageRejectedError('type', `Not an image (${contentType.split(';')[0]})`);
+    }
+    return response.body;
+  } catch (error) {
+    if (error instanceof HttpFetchError) {
+      throw new ImageRejectedError(error.type === 'too_large' ? 'size' : 'fetch', error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Widths to render: the configured widths below the original, plus the original when it is smaller than the largest
+ */
+function variantWidthsFor(width: number): number[] {
+  if (VARIANT_WIDTHS.length === 0) return [width];
+  return Array.from(new Set(VARIANT_WIDTHS.map(target => Math.min(target, width))));
+}
+
+/**
+ * Download, validate and store an image, or return the stored copy of the same bytes
+ * @throws ImageRejectedError when the image cannot be fetched or fails validation
+ */
+export async function storeImageFromUrl(url: string): Promise<ImageAsset> {
+  const body = await download(url);
+  const hash = createHash('sha256').update(body).digest('hex');
+
+  const existing = await prisma.imageAsset.findUnique({ where: { hash } });
+  if (existing) return existing;
+
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(body, { limitInputPixels: MAX_PIXELS }).metadata();
+  } catch (error) {
+    throw new ImageRejectedError('decode', `Unreadable image: ${(error as Error).message}`);
+  }
+
+  if (!ALLOWED_FORMATS.includes(metadata.format)) {
+    throw new ImageRejectedError('type', `Unsupported image format "${metadata.format}"`);
+  }
+
+  const { width, height } = metadata.autoOrient;
+  if (width < MIN_WIDTH || height < MIN_HEIGHT) {
+    throw new ImageRejectedError('dimensions', `${width}x${height} is below the ${MIN_WIDTH}x${MIN_HEIGHT} minimum`);
+  }
+  if (Math.max(width / height, height / width) > MAX_ASPECT_RATIO) {
+    throw new ImageRejectedError('dimensions', `${width}x${height} has an extreme aspect ratio`);
+  }
+
+  const storage = getImageStorage();
+  const storageKey = `${hash.slice(0, 2)}/${hash}`;
+  const variantWidths = variantWidthsFor(width);
+  const resized = (targetWidth: number) => sharp(body, { limitInputPixels: MAX_PIXELS }).autoOrient().resize({ width: targetWidth });
+
+  let blurDataUrl: string;
+  try {
+    for (const variantWidth of variantWidths) {
+      const variant = await resized(variantWidth).webp({ quality: WEBP_QUALITY }).toBuffer();
+      await storage.put(`${storageKey}/${variantWidth}.webp`, variant, 'image/webp');
+    }
+
+    const blur = await resized(BLUR_WIDTH).webp({ quality: 40 }).toBuffer();
+    blurDataUrl = `data:image/webp;base64,${blur.toString('base64')}`;
+  } catch (error) {
+    await storage.deletePrefix(storageKey).catch(() => undefined);
+    throw new ImageRejectedError('decode', `Could not resize image: ${(error as Error).message}`);
+  }
+
+  try {
+    return await prisma.imageAsset.create({
+      data: {
+        hash,
+        sourceUrl: url,
+        storageKey,
+        format: metadata.format,
+        width,
+        height,
+        bytes: body.length,
+        variantWidths,
+        blurDataUrl,
+      },
+    });
+  } catch (error) {
+    // Another worker stored the same image in the meantime
+    const stored = await prisma.imageAsset.findUnique({ where: { hash } });
+    if (stored) return stored;
+    throw error;
+  }
+}
+
+/**
+ * storeImageFromUrl for ingestion: a rejected image is logged and dropped rather than hotlinked
+ */
+export async function localiseImage(url: string | undefined | null): Promise<ImageAsset | null> {
+  if (!url) return null;
+
+  try {
+    return await storeImageFromUrl(url);
+  } catch (error) {
+    console.warn(`Image not stored for ${url}:`, (error as Error).message);
+    return null;
+  }
+}
+
+/**
+ * src, srcSet and placeholder for a stored image
+ */
+export function responsiveImage(asset: Pick<ImageAsset, 'storageKey' | 'variantWidths' | 'width' | 'height' | 'blurDataUrl'>): ResponsiveImage {
+  const storage = getImageStorage();
+  const variants = asset.variantWidths.map(width => ({ width, url: storage.url(`${asset.storageKey}/${width}.webp`) }));
+
+  return {
+    src: variants[variants.length - 1].url,
+    srcSet: variants.map(variant => `${variant.url} ${variant.width}w`).join(', '),
+    width: asset.width,
+    height: asset.height,
+    blurDataUrl: asset.blurDataUrl,
+  };
+}
+
+/**
+ * Article columns for a stored image, or for no image at all
+ */
+export function articleImageData(asset: ImageAsset | null): { image: string | null; imageAssetId: string | null } {
+  return asset
+    ? { image: responsiveImage(asset).src, imageAssetId: asset.id }
+    : { image: null, imageAssetId: null };
+}
+
+// Columns responsiveImage reads, for Prisma selects
+export const RESPONSIVE_IMAGE_SELECT = {
+  storageKey: true,
+  variantWidths: true,
+  width: true,
+  height: true,
+  blurDataUrl: true,
+} as const;
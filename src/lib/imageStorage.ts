@@ -0,0 +1,91 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Storage for processed images
+ *
+ * The image pipeline writes variants through an ImageStorage chosen by IMAGE_STORAGE.
+ * The local backend keeps files under IMAGE_STORAGE_DIR and they are served by the
+ * /media route; a backend for object storage only needs to implement the same interface.
+ */
+
+export interface ImageStorage {
+  name: string;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  // Null when the key does not exist
+  get(key: string): Promise<Buffer | null>;
+  // Remove every file stored under a key prefix
+  deletePrefix(prefix: string): Promise<void>;
+  // URL the browser loads the file from
+  url(key: string): string;
+}
+
+const STORAGE_DIR = path.resolve(process.env.IMAGE_STORAGE_DIR || 'storage/images');
+// Path the /media route is mounted on, or a CDN origin in front of it
+const PUBLIC_BASE = (process.env.IMAGE_PUBLIC_BASE_URL || '/media').replace(/\/+$/, '');
+
+/**
+ * Keys are generated by the pipeline, but the /media route passes user input through here
+ */
+export function isValidStorageKey(key: string): boolean {
+  return /^[a-z0-9][a-z0-9/_.-]*$/i.test(key) && !key.split('/').some(part => part === '' || part === '.' || part === '..');
+}
+
+function createLocalStorage(): ImageStorage {
+  const filePath = (key: string) => {
+    if (!isValidStorageKey(key)) throw new Error(`Invalid storage key: ${key}`);
+    return path.join(STORAGE_DIR, key);
+  };
+
+  return {
+    name: 'local',
+
+    async put(key, body) {
+      const target = filePath(key);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      // Write then rename so a reader never sees a half-written file
+      const temp = `${target}.${process.pid}.tmp`;
+      await fs.writeFile(temp, body);
+      await fs.rename(temp, target);
+    },
+
+    async get(key) {
+      try {
+        return await fs.readFile(filePath(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async deletePrefix(prefix) {
+      await fs.rm(filePath(prefix), { recursive: true, force: true });
+    },
+
+    url(key) {
+      return `${PUBLIC_BASE}/${key}`;
+    },
+  };
+}
+
+const STORAGE_FACTORIES: Record<string, () => ImageStorage> = {
+  local: createLocalStorage,
+};
+
+let storage: ImageStorage | null = null;
+
+/**
+ * Storage backend from IMAGE_STORAGE - defaults to "local"
+ */
+export function getImageStorage(): ImageStorage {
+  if (storage) return storage;
+
+  const name = (process.env.IMAGE_STORAGE || 'local').trim().toLowerCase();
+  const factory = STORAGE_FACTORIES[name];
+  if (!factory) {
+    throw new Error(`Unknown image storage "${name}" in IMAGE_STORAGE`);
+  }
+
+  storage = factory();
+  return storage;
+}
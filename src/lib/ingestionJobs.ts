@@ -0,0 +1,302 @@
+import { Job } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { RSSFeedItem } from '@/types/rss';
+import { fetchSourceFeed, processFeedItem, saveFeedValidators, SourceFeedResult } from '@/lib/rssParser';
+import { enqueueJob, claimJobs, completeJob, deferJob, failJob, failExpiredJobs } from '@/lib/jobQueue';
+import { LlmBudgetExceededError } from '@/lib/llmUsage';
+import { isDueForFetch } from '@/lib/feedHealth';
+
+export const JOB_TYPES = {
+  FETCH_SOURCE: 'fetch_source',
+  PROCESS_ITEM: 'process_item',
+} as const;
+
+interface FetchSourcePayload {
+  sourceId: string;
+  authorId: string;
+  limit: number;
+}
+
+interface ProcessItemPayload {
+  item: RSSFeedItem;
+  sourceId: string;
+  sourceName: string;
+  categorySlug: string;
+  country: string;
+  authorId: string;
+  autoPublish: boolean;
+  extractFullText?: boolean;
+}
+
+/**
+ * Queue one fetch_source job per news source
+ * Sources that still have an unfinished fetch job are skipped
+ */
+export async function enqueueSourceFetches(
+  sourceIds: string[],
+  options: { authorId: string; limit: number; processingLogId: string }
+): Promise<number> {
+  let enqueued = 0;
+
+  for (const sourceId of sourceIds) {
+    const job = await enqueueJob({
+      type: JOB_TYPES.FETCH_SOURCE,
+      payload: { sourceId, authorId: options.authorId, limit: options.limit } satisfies FetchSourcePayload,
+      dedupeKey: `source:${sourceId}`,
+      processingLogId: options.processingLogId,
+    });
+    if (job) enqueued++;
+  }
+
+  return enqueued;
+}
+
+/**
+ * Fetch a source's feed and fan out one process_item job per item
+ */
+async function handleFetchSource(job: Job): Promise<unknown> {
+  const payload: FetchSourcePayload = JSON.parse(job.payload);
+
+  const source = await prisma.newsSource.findUnique({
+    where: { id: payload.sourceId },
+  });
+
+  if (!source || !source.active) {
+    return { skipped: 'Source missing or inactive' };
+  }
+
+  // Quarantined since the job was queued; the next probe is scheduled on the source
+  if (!isDueForFetch(source)) {
+    return { skipped: `Source quarantined until ${source.nextProbeAt?.toISOString()}` };
+  }
+
+  const category = await prisma.category.findUnique({
+    where: { slug: source.category },
+  });
+
+  if (!category) {
+    throw new Error(`Category not found: ${source.category}`);
+  }
+
+  // Failures are recorded on the source's health and not retried here: each retry would count
+  // as another consecutive failure, so a short outage would quarantine the source.
+  // The next scheduled run fetches it again.
+  let result: SourceFeedResult;
+  try {
+    result = await fetchSourceFeed(source);
+  } catch (error) {
+    return { failed: (error as Error).message };
+  }
+
+  const { feed, bytes, bytesSaved } = result;
+  if (!feed) {
+    return { notModified: true, bytesSaved };
+  }
+
+  const items = feed.items.slice(0, payload.limit);
+  let enqueued = 0;
+
+  for (const item of items) {
+    const itemJob = await enqueueJob({
+      type: JOB_TYPES.PROCESS_ITEM,
+      payload: {
+        item,
+        sourceId: source.id,
+        sourceName: source.name,
+        categorySlug: source.category,
+        country: source.country,
+        authorId: payload.authorId,
+        autoPublish: source.autoPublish,
+        extractFullText: source.extractFullText,
+      } satisfies ProcessItemPayload,
+      dedupeKey: `item:${item.guid || item.link}`,
+      processingLogId: job.processingLogId,
+    });
+    if (itemJob) enqueued++;
+  }
+
+  // Only now that every item is queued may the next fetch be answered with a 304
+  await saveFeedValidators(source.id, result);
+
+  return { items: items.length, enqueued, bytes };
+}
+
+/**
+ * Classify, rephrase and store one feed item
+ */
+async function handleProcessItem(job: Job): Promise<unknown> {
+  const payload: ProcessItemPayload = JSON.parse(job.payload);
+
+  const category = await prisma.category.findUnique({
+    where: { slug: payload.categorySlug },
+  });
+
+  if (!category) {
+    throw new Error(`Category not found: ${payload.categorySlug}`);
+  }
+
+  const outcome = await processFeedItem(payload.item, {
+    sourceId: payload.sourceId,
+    sourceName: payload.sourceName,
+    authorId: payload.authorId,
+    country: payload.country,
+    fallbackCategory: category,
+    autoPublish: payload.autoPublish,
+    jobId: job.id,
+    extractFullText: payload.extractFullText,
+  });
+
+  if (outcome === 'stored' && job.processingLogId) {
+    await prisma.processingLog.update({
+      where: { id: job.processingLogId },
+      data: { articlesCount: { increment: 1 } },
+    });
+  }
+
+  return { outcome };
+}
+
+const HANDLERS: Record<string, (job: Job) => Promise<unknown>> = {
+  [JOB_TYPES.FETCH_SOURCE]: handleFetchSource,
+  [JOB_TYPES.PROCESS_ITEM]: handleProcessItem,
+};
+
+/**
+ * Record queue progress on a ProcessingLog, and close it once all its jobs have finished
+ */
+export async function refreshProcessingLog(processingLogId: string): Promise<void> {
+  const log = await prisma.processingLog.findUnique({
+    where: { id: processingLogId },
+  });
+
+  if (!log || log.completedAt) return;
+
+  const counts = await prisma.job.groupBy({
+    by: ['status'],
+    where: { processingLogId },
+    _count: { status: true },
+  });
+
+  const progress: Record<string, number> = { pending: 0, running: 0, completed: 0, failed: 0 };
+  counts.forEach(c => {
+    progress[c.status] = c._count.status;
+  });
+
+  const metadata = log.metadata ? JSON.parse(log.metadata) : {};
+  const finished = progress.pending === 0 && progress.running === 0;
+
+  if (!finished) {
+    await prisma.processingLog.update({
+      where: { id: processingLogId },
+      data: { metadata: JSON.stringify({ ...metadata, progress }) },
+    });
+    return;
+  }
+
+  const itemJobs = await prisma.job.findMany({
+    where: { processingLogId, type: JOB_TYPES.PROCESS_ITEM, status: 'completed' },
+    select: { result: true },
+  });
+  const outcomes = itemJobs.map(j => (j.result ? JSON.parse(j.result).outcome : null));
+
+  const fetchJobs = await prisma.job.findMany({
+    where: { processingLogId, type: JOB_TYPES.FETCH_SOURCE, status: 'completed' },
+    select: { result: true },
+  });
+  const fetches: Array<{ notModified?: boolean; bytes?: number; bytesSaved?: number }> =
+    fetchJobs.map(j => (j.result ? JSON.parse(j.result) : {}));
+
+  const failedJobs = await prisma.job.findMany({
+    where: { processingLogId, status: 'failed' },
+    select: { type: true, lastError: true },
+    take: 50,
+  });
+
+  const total = progress.completed + progress.failed;
+
+  await prisma.processingLog.update({
+    where: { id: processingLogId },
+    data: {
+      status: progress.failed === 0 ? 'success' : progress.failed === total ? 'failed' : 'partial',
+      errors: failedJobs.length > 0
+        ? JSON.stringify(failedJobs.map(j => `${j.type}: ${j.lastError}`))
+        : null,
+      completedAt: new Date(),
+      metadata: JSON.stringify({
+        ...metadata,
+        progress,
+        stored: outcomes.filter(o => o === 'stored').length,
+        skipped: outcomes.filter(o => o === 'skipped').length,
+        notModified: fetches.filter(f => f.notModified).length,
+        bytesDownloaded: fetches.reduce((sum, f) => sum + (f.bytes || 0), 0),
+        bytesSaved: fetches.reduce((sum, f) => sum + (f.bytesSaved || 0), 0),
+        duration: Date.now() - log.startedAt.getTime(),
+      }),
+    },
+  });
+}
+
+/**
+ * Drain the ingestion queue until it is empty or the time budget runs out
+ */
+export async function runIngestionWorker(options: {
+  workerId: string;
+  timeBudgetMs: number;
+}): Promise<{ processed: number; succeeded: number; retried: number; deferred: number; failed: number; lost: number }> {
+  const startTime = Date.now();
+  // lost: the visibility timeout expired and another worker reclaimed the job, so its outcome is not ours to record
+  const stats = { processed: 0, succeeded: 0, retried: 0, deferred: 0, failed: 0, lost: 0 };
+
+  const expired = await failExpiredJobs();
+  stats.failed += expired.length;
+  for (const logId of new Set(expired.map(j => j.processingLogId))) {
+    if (logId) await refreshProcessingLog(logId);
+  }
+
+  while (Date.now() - startTime < options.timeBudgetMs) {
+    const [job] = await claimJobs(options.workerId, 1);
+    if (!job) break;
+
+    stats.processed++;
+
+    try {
+      const handler = HANDLERS[job.type];
+      if (!handler) {
+        throw new Error(`No handler for job type: ${job.type}`);
+      }
+
+      const result = await handler(job);
+      if (await completeJob(job, result)) {
+        stats.succeeded++;
+      } else {
+        console.warn(`Job ${job.id} (${job.type}) finished after its lease was lost; result discarded`);
+        stats.lost++;
+      }
+    } catch (error) {
+      // Over budget is not a failure: the job waits for the budget to reset
+      if (error instanceof LlmBudgetExceededError) {
+        if (await deferJob(job, error.resetsAt, error.message)) {
+          stats.deferred++;
+        } else {
+          stats.lost++;
+        }
+      } else {
+        console.error(`Job ${job.id} (${job.type}) failed on attempt ${job.attempts}:`, error);
+        const outcome = await failJob(job, error as Error);
+        if (outcome === 'retrying') {
+          stats.retried++;
+        } else if (outcome === 'failed') {
+          stats.failed++;
+        } else {
+          stats.lost++;
+        }
+      }
+    }
+
+    if (job.processingLogId) {
+      await refreshProcessingLog(job.processingLogId);
+    }
+  }
+
+  return stats;
+}
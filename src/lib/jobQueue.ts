@@ -0,0 +1,193 @@
+import { Job, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+
+// How long a claimed job stays invisible to other workers
+const VISIBILITY_TIMEOUT_MS = parseInt(process.env.JOB_VISIBILITY_TIMEOUT_MS || String(5 * 60 * 1000));
+
+// Retry backoff: base * 2^(attempt - 1), capped
+const RETRY_BASE_MS = parseInt(process.env.JOB_RETRY_BASE_MS || '30000');
+const RETRY_MAX_MS = 60 * 60 * 1000;
+
+export interface EnqueueJobInput {
+  type: string;
+  payload: unknown;
+  dedupeKey?: string;
+  processingLogId?: string | null;
+  maxAttempts?: number;
+  runAt?: Date;
+}
+
+/**
+ * Add a job to the queue
+ * Returns null when an unfinished job with the same dedupeKey already exists. The check
+ * is a fast path; the partial unique index in prisma/sql/job_dedupe_index.sql settles races.
+ */
+export async function enqueueJob(input: EnqueueJobInput): Promise<Job | null> {
+  if (input.dedupeKey) {
+    const existing = await prisma.job.findFirst({
+      where: {
+        dedupeKey: input.dedupeKey,
+        status: { in: ['pending', 'running'] },
+      },
+      select: { id: true },
+    });
+    if (existing) {
+      return null;
+    }
+  }
+
+  try {
+    return await prisma.job.create({
+      data: {
+        type: input.type,
+        payload: JSON.stringify(input.payload),
+        dedupeKey: input.dedupeKey,
+        processingLogId: input.processingLogId,
+        maxAttempts: input.maxAttempts,
+        runAt: input.runAt,
+      },
+    });
+  } catch (error) {
+    // Another run queued the same key between the check and the insert
+    if (input.dedupeKey && error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Atomically claim due jobs for a worker
+ * Picks pending jobs whose runAt has passed and running jobs whose visibility timeout expired
+ */
+export async function claimJobs(workerId: string, limit: number = 1): Promise<Job[]> {
+  const now = new Date();
+  const lockedUntil = new Date(now.getTime() + VISIBILITY_TIMEOUT_MS);
+
+  return prisma.$queryRaw<Job[]>`
+    UPDATE "Job"
+    SET "status" = 'running',
+        "attempts" = "attempts" + 1,
+        "lockedUntil" = ${lockedUntil},
+        "lockedBy" = ${workerId},
+        "updatedAt" = ${now}
+    WHERE "id" IN (
+      SELECT "id" FROM "Job"
+      WHERE "attempts" < "maxAttempts"
+        AND (
+          ("status" = 'pending' AND "runAt" <= ${now})
+          OR ("status" = 'running' AND "lockedUntil" < ${now})
+        )
+      ORDER BY "runAt" ASC
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `;
+}
+
+/**
+ * The claimed job, as long as this worker still holds it
+ * A job whose visibility timeout expired may have been reclaimed by another worker,
+ * which then owns its outcome
+ */
+function leaseWhere(job: Job) {
+  return { id: job.id, status: 'running', lockedBy: job.lockedBy };
+}
+
+/**
+ * Mark a claimed job as completed and store its result
+ * Returns false when the worker lost the lease and nothing was updated
+ */
+export async function completeJob(job: Job, result?: unknown): Promise<boolean> {
+  const { count } = await prisma.job.updateMany({
+    where: leaseWhere(job),
+    data: {
+      status: 'completed',
+      result: result === undefined ? null : JSON.stringify(result),
+      lockedUntil: null,
+      completedAt: new Date(),
+    },
+  });
+  return count > 0;
+}
+
+/**
+ * Record a failed attempt: reschedule with backoff, or fail for good once attempts run out
+ * Returns 'lost' when the worker lost the lease and nothing was updated
+ */
+export async function failJob(job: Job, error: Error): Promise<'retrying' | 'failed' | 'lost'> {
+  if (job.attempts < job.maxAttempts) {
+    const delayMs = Math.min(RETRY_BASE_MS * Math.pow(2, job.attempts - 1), RETRY_MAX_MS);
+    const { count } = await prisma.job.updateMany({
+      where: leaseWhere(job),
+      data: {
+        status: 'pending',
+        runAt: new Date(Date.now() + delayMs),
+        lockedUntil: null,
+        lastError: error.message,
+      },
+    });
+    return count > 0 ? 'retrying' : 'lost';
+  }
+
+  const { count } = await prisma.job.updateMany({
+    where: leaseWhere(job),
+    data: {
+      status: 'failed',
+      lockedUntil: null,
+      lastError: error.message,
+      completedAt: new Date(),
+    },
+  });
+  return count > 0 ? 'failed' : 'lost';
+}
+
+/**
+ * Put a claimed job back until runAt without using up an attempt
+ * Returns false when the worker lost the lease and nothing was updated
+ */
+export async function deferJob(job: Job, runAt: Date, reason: string): Promise<boolean> {
+  const { count } = await prisma.job.updateMany({
+    where: leaseWhere(job),
+    data: {
+      status: 'pending',
+      runAt,
+      attempts: { decrement: 1 },
+      lockedUntil: null,
+      lastError: reason,
+    },
+  });
+  return count > 0;
+}
+
+/**
+ * Fail running jobs that timed out on their last allowed attempt
+ * (claimJobs will not pick them up again). Returns the affected jobs.
+ */
+export async function failExpiredJobs(): Promise<Array<{ id: string; processingLogId: string | null }>> {
+  const where = {
+    status: 'running',
+    lockedUntil: { lt: new Date() },
+    attempts: { gte: prisma.job.fields.maxAttempts },
+  };
+
+  const expired = await prisma.job.findMany({
+    where,
+    select: { id: true, processingLogId: true },
+  });
+
+  if (expired.length > 0) {
+    await prisma.job.updateMany({
+      where: { ...where, id: { in: expired.map(j => j.id) } },
+      data: {
+        status: 'failed',
+        lockedUntil: null,
+        lastError: 'Visibility timeout exceeded on final attempt',
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  return expired;
+}
@@ -0,0 +1,125 @@
+/**
+ * JSON Feed 1.0/1.1 support (https://jsonfeed.org/version/1.1)
+ *
+ * Items are converted to the shape rss-parser produces for RSS and Atom, so
+ * rssParser.ts maps all three formats to RSSFeedItem the same way.
+ */
+
+interface JsonFeedAttachment {
+  url?: string;
+  mime_type?: string;
+  size_in_bytes?: number;
+}
+
+interface JsonFeedItem {
+  id?: string | number;
+  url?: string;
+  external_url?: string;
+  title?: string;
+  content_html?: string;
+  content_text?: string;
+  summary?: string;
+  image?: string;
+  banner_image?: string;
+  date_published?: string;
+  date_modified?: string;
+  tags?: string[];
+  attachments?: JsonFeedAttachment[];
+}
+
+interface JsonFeedDocument {
+  version?: string;
+  title?: string;
+  home_page_url?: string;
+  description?: string;
+  items?: JsonFeedItem[];
+}
+
+// rss-parser's item shape, as far as the RSSFeedItem mapping reads it
+export interface ParsedFeedItem {
+  title?: string;
+  link?: string;
+  guid?: string;
+  pubDate?: string;
+  isoDate?: string;
+  description?: string;
+  content?: string;
+  contentSnippet?: string;
+  categories?: string[];
+  enclosure?: { url: string; type?: string; length?: string };
+}
+
+export interface ParsedJsonFeed {
+  title?: string;
+  description?: string;
+  link?: string;
+  items: ParsedFeedItem[];
+}
+
+const JSON_FEED_VERSION = /^https?:\/\/jsonfeed\.org\/version\/1(\.1)?$/;
+
+/**
+ * Whether a response looks like a JSON Feed rather than XML
+ */
+export function looksLikeJsonFeed(body: string, contentType?: string | null): boolean {
+  if (contentType && /application\/(feed\+)?json/i.test(contentType)) return true;
+  return body.trimStart().startsWith('{');
+}
+
+function stripHtml(html: string): string {
+  return html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function toIsoDate(value?: string): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function toParsedItem(item: JsonFeedItem): ParsedFeedItem {
+  const content = item.content_html || item.content_text || '';
+  const image = item.image
+    || item.banner_image
+    || item.attachments?.find(a => a.url && a.mime_type?.startsWith('image/'))?.url;
+  const isoDate = toIsoDate(item.date_published || item.date_modified);
+
+  return {
+    title: item.title || (item.summary ? item.summary.slice(0, 120) : ''),
+    link: item.url || item.external_url,
+    guid: item.id !== undefined ? String(item.id) : item.url,
+    pubDate: isoDate,
+    isoDate,
+    description: item.summary || content,
+    content,
+    contentSnippet: item.content_text || stripHtml(content),
+    categories: item.tags || [],
+    enclosure: image ? { url: image } : undefined,
+  };
+}
+
+/**
+ * Parse a JSON Feed document
+ * @throws Error when the body is not JSON or not a JSON Feed
+ */
+export function parseJsonFeed(body: string): ParsedJsonFeed {
+  let document: JsonFeedDocument;
+  try {
+    document = JSON.parse(body);
+  } catch (error) {
+    throw new Error(`Not valid JSON: ${(error as Error).message}`);
+  }
+
+  if (!document || typeof document !== 'object' || !JSON_FEED_VERSION.test(document.version || '')) {
+    throw new Error('Not a JSON Feed (missing or unknown "version")');
+  }
+  if (!Array.isArray(document.items)) {
+    throw new Error('JSON Feed has no "items" array');
+  }
+
+  return {
+    title: document.title,
+    description: document.description,
+    link: document.home_page_url,
+    items: document.items.filter(item => item && typeof item === 'object').map(toParsedItem),
+  };
+}
@@ -0,0 +1,48 @@
+import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
+import { LLMProvider, LLMProviderError, LLMRequest, LLMResponse } from './types';
+
+/**
+ * Google Gemini provider (GEMINI_API_KEY, GEMINI_MODEL)
+ * The client is created on first use rather than at module load
+ */
+export function createGeminiProvider(): LLMProvider {
+  const apiKey = process.env.GEMINI_API_KEY || '';
+  const modelName = process.env.GEMINI_MODEL || 'gemini-1.5-flash';
+  let model: GenerativeModel | null = null;
+
+  return {
+    name: 'gemini',
+    model: modelName,
+    isConfigured: () => apiKey.length > 0,
+    async generate(request: LLMRequest): Promise<LLMResponse> {
+      if (!model) {
+        model = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model: modelName });
+      }
+
+      try {
+        const result = await model.generateContent({
+          contents: [{ role: 'user', parts: [{ text: request.prompt }] }],
+          generationConfig: {
+            temperature: request.temperature,
+            maxOutputTokens: request.maxOutputTokens,
+            topP: request.topP,
+            responseMimeType: request.responseFormat === 'json' ? 'application/json' : undefined,
+          },
+        });
+
+        const usage = result.response.usageMetadata;
+        return {
+          text: result.response.text(),
+          provider: 'gemini',
+          model: modelName,
+          usage: usage
+            ? { inputTokens: usage.promptTokenCount, outputTokens: usage.candidatesTokenCount }
+            : undefined,
+        };
+      } catch (error) {
+        const status = (error as { status?: number }).status;
+        throw new LLMProviderError('gemini', (error as Error).message, status);
+      }
+    },
+  };
+}
@@ -0,0 +1,93 @@
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+import { createStubProvider } from './stubProvider';
+import { LLMProvider, LLMProviderError, LLMRequest, LLMResponse } from './types';
+import { recordLlmCall } from '@/lib/llmUsage';
+
+export * from './types';
+
+const PROVIDER_FACTORIES: Record<string, () => LLMProvider> = {
+  gemini: createGeminiProvider,
+  openai: createOpenAICompatibleProvider,
+  stub: createStubProvider,
+};
+
+let providers: LLMProvider[] | null = null;
+
+/**
+ * Resolve the provider chain from LLM_PROVIDERS (comma-separated, in fallback order)
+ * e.g. LLM_PROVIDERS="gemini,openai" - defaults to "gemini"
+ */
+export function getLLMProviders(): LLMProvider[] {
+  if (providers) return providers;
+
+  const names = (process.env.LLM_PROVIDERS || 'gemini')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  providers = names.flatMap(name => {
+    const factory = PROVIDER_FACTORIES[name];
+    if (!factory) {
+      console.warn(`Unknown LLM provider "${name}" in LLM_PROVIDERS, ignoring`);
+      return [];
+    }
+    return [factory()];
+  });
+
+  return providers;
+}
+
+/**
+ * Provider and model tried first, e.g. "gemini:gemini-1.5-flash"
+ */
+export function getPrimaryModel(): string {
+  const provider = getLLMProviders().find(p => p.isConfigured());
+  return provider ? `${provider.name}:${provider.model}` : 'none';
+}
+
+/**
+ * Generate text with the first configured provider, falling back down the chain on failure
+ * Every attempt is recorded as an LlmCall. Throws the last provider error when every provider fails
+ */
+export async function generateText(request: LLMRequest): Promise<LLMResponse> {
+  const chain = getLLMProviders().filter(provider => provider.isConfigured());
+
+  if (chain.length === 0) {
+    throw new LLMProviderError('none', 'No configured LLM provider (check LLM_PROVIDERS and API keys)');
+  }
+
+  let lastError: unknown;
+  for (const provider of chain) {
+    const startedAt = Date.now();
+    const record = {
+      provider: provider.name,
+      model: provider.model,
+      task: request.task || 'generic',
+      context: request.context,
+    };
+
+    try {
+      const response = await provider.generate(request);
+      const callId = await recordLlmCall({
+        ...record,
+        model: response.model,
+        outcome: 'success',
+        usage: response.usage,
+        latencyMs: Date.now() - startedAt,
+      });
+      return { ...response, callId };
+    } catch (error) {
+      lastError = error;
+      console.error(`LLM provider "${provider.name}" failed:`, (error as Error).message);
+      await recordLlmCall({
+        ...record,
+        outcome: 'error',
+        error: (error as Error).message,
+        latencyMs: Date.now() - startedAt,
+      });
+    }
+  }
+
+  throw lastError;
+}
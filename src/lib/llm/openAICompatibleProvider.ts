@@ -0,0 +1,72 @@
+import { LLMProvider, LLMProviderError, LLMRequest, LLMResponse } from './types';
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+  error?: { message?: string };
+}
+
+/**
+ * Any OpenAI-compatible chat completions endpoint
+ * (OPENAI_API_KEY, OPENAI_BASE_URL, OPENAI_MODEL) - OpenAI, Groq, Together, Ollama, vLLM...
+ */
+export function createOpenAICompatibleProvider(): LLMProvider {
+  const apiKey = process.env.OPENAI_API_KEY || '';
+  const baseUrl = (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/$/, '');
+  const modelName = process.env.OPENAI_MODEL || 'gpt-4o-mini';
+  const timeoutMs = parseInt(process.env.OPENAI_TIMEOUT_MS || '60000');
+
+  return {
+    name: 'openai',
+    model: modelName,
+    // Local servers such as Ollama need no key, only a base URL
+    isConfigured: () => apiKey.length > 0 || !!process.env.OPENAI_BASE_URL,
+    async generate(request: LLMRequest): Promise<LLMResponse> {
+      let response: Response;
+      try {
+        response = await fetch(`${baseUrl}/chat/completions`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model: modelName,
+            messages: [{ role: 'user', content: request.prompt }],
+            temperature: request.temperature,
+            max_tokens: request.maxOutputTokens,
+            top_p: request.topP,
+            ...(request.responseFormat === 'json' ? { response_format: { type: 'json_object' } } : {}),
+          }),
+          signal: AbortSignal.timeout(timeoutMs),
+        });
+      } catch (error) {
+        throw new LLMProviderError('openai', (error as Error).message);
+      }
+
+      const data: ChatCompletionResponse = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new LLMProviderError(
+          'openai',
+          data.error?.message || `HTTP ${response.status} ${response.statusText}`,
+          response.status
+        );
+      }
+
+      const text = data.choices?.[0]?.message?.content;
+      if (!text) {
+        throw new LLMProviderError('openai', 'Empty completion from OpenAI-compatible API');
+      }
+
+      return {
+        text,
+        provider: 'openai',
+        model: modelName,
+        usage: data.usage
+          ? { inputTokens: data.usage.prompt_tokens || 0, outputTokens: data.usage.completion_tokens || 0 }
+          : undefined,
+      };
+    },
+  };
+}
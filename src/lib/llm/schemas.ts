@@ -0,0 +1,24 @@
+import { z } from 'zod';
+
+/**
+ * Expected shapes of structured LLM responses
+ */
+
+export const CATEGORY_SLUGS = [
+  'sports', 'business', 'technology', 'entertainment', 'politics', 'health', 'world', 'news',
+] as const;
+
+const nonEmptyText = z.string().trim().min(1);
+
+export const rephraseOutputSchema = z.object({
+  title: nonEmptyText,
+  content: nonEmptyText,
+  excerpt: nonEmptyText,
+});
+
+export const classifyOutputSchema = z.object({
+  category: z.string().trim().toLowerCase().pipe(z.enum(CATEGORY_SLUGS)),
+});
+
+export type RephraseOutput = z.infer<typeof rephraseOutputSchema>;
+export type ClassifyOutput = z.infer<typeof classifyOutputSchema>;
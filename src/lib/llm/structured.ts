@@ -0,0 +1,149 @@
+import { z } from 'zod';
+import { generateText } from './index';
+import { LLMOutputError, LLMRequest, LLMResponse } from './types';
+import { markLlmCallInvalid } from '@/lib/llmUsage';
+
+/**
+ * Structured (JSON) generation validated against a zod schema
+ *
+ * Requests the provider's JSON mode, then parses the response. Malformed output
+ * goes through a local repair pass first (code fences, trailing commas, raw
+ * newlines in strings, truncation) and then one repair request to the model.
+ * Anything still invalid raises LLMOutputError rather than being used as is.
+ */
+
+export interface StructuredResponse<T> extends LLMResponse {
+  data: T;
+  // How the output was made valid
+  repair: 'none' | 'local' | 'model';
+}
+
+type ParseResult<T> = { ok: true; data: T } | { ok: false; issues: string[] };
+
+/**
+ * Best-effort fixes for near-JSON model output
+ */
+export function repairJson(text: string): string {
+  let json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  const start = json.indexOf('{');
+  if (start > 0) json = json.slice(start);
+
+  // Escape raw control characters inside strings, drop prose after the top-level object,
+  // and track what a truncated response left open
+  let result = '';
+  let inString = false;
+  let escaped = false;
+  const closers: string[] = [];
+  for (const char of json) {
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      } else if (char === '\n') {
+        result += '\\n';
+        continue;
+      } else if (char === '\r') {
+        continue;
+      } else if (char === '\t') {
+        result += '\\t';
+        continue;
+      }
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      closers.push('}');
+    } else if (char === '[') {
+      closers.push(']');
+    } else if (char === '}' || char === ']') {
+      closers.pop();
+      if (closers.length === 0) {
+        result += char;
+        break;
+      }
+    }
+    result += char;
+  }
+
+  // Close a truncated response
+  if (inString) result += '"';
+  result += closers.reverse().join('');
+
+  return result.replace(/,\s*([}\]])/g, '$1');
+}
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+}
+
+function parseAgainst<T>(text: string, schema: z.ZodType<T>): ParseResult<T> {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    return { ok: false, issues: [`Invalid JSON: ${(error as Error).message}`] };
+  }
+
+  const result = schema.safeParse(value);
+  return result.success ? { ok: true, data: result.data } : { ok: false, issues: formatIssues(result.error) };
+}
+
+function buildRepairPrompt(output: string, issues: string[], schema: z.ZodType): string {
+  return `The following response was supposed to be a JSON object matching this JSON Schema:
+${JSON.stringify(z.toJSONSchema(schema))}
+
+It failed validation:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+**Response:**
+${output}
+
+Return ONLY the corrected JSON object. Keep all of the wording from the response; only fix the structure.`;
+}
+
+/**
+ * Generate and validate a JSON response
+ * Provider failures propagate as LLMProviderError; unusable output raises LLMOutputError
+ */
+export async function generateStructured<T>(
+  request: LLMRequest,
+  schema: z.ZodType<T>
+): Promise<StructuredResponse<T>> {
+  const response = await generateText({ ...request, responseFormat: 'json' });
+
+  const direct = parseAgainst(response.text.trim(), schema);
+  if (direct.ok) {
+    return { ...response, data: direct.data, repair: 'none' };
+  }
+
+  const local = parseAgainst(repairJson(response.text), schema);
+  if (local.ok) {
+    return { ...response, data: local.data, repair: 'local' };
+  }
+
+  await markLlmCallInvalid(response.callId, local.issues);
+
+  const repaired = await generateText({
+    prompt: buildRepairPrompt(response.text, local.issues, schema),
+    task: 'repair',
+    temperature: 0,
+    maxOutputTokens: request.maxOutputTokens,
+    responseFormat: 'json',
+    context: request.context,
+  });
+
+  const fixed = parseAgainst(repairJson(repaired.text), schema);
+  if (fixed.ok) {
+    return { ...repaired, data: fixed.data, repair: 'model' };
+  }
+
+  await markLlmCallInvalid(repaired.callId, fixed.issues);
+  throw new LLMOutputError(
+    `LLM output did not match the expected schema: ${fixed.issues.slice(0, 3).join('; ')}`,
+    repaired.text,
+    fixed.issues
+  );
+}
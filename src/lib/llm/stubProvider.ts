@@ -0,0 +1,67 @@
+import { LLMProvider, LLMRequest, LLMResponse } from './types';
+
+// Keyword hints for offline classification, checked in order
+const CATEGORY_KEYWORDS: Array<[string, string[]]> = [
+  ['sports', ['match', 'cricket', 'football', 'tournament', 'league', 'goal', 'olympic', 'coach']],
+  ['business', ['market', 'stock', 'shares', 'economy', 'company', 'revenue', 'profit', 'bank']],
+  ['technology', ['tech', 'software', 'smartphone', 'ai ', 'app ', 'startup', 'google', 'apple']],
+  ['entertainment', ['film', 'movie', 'actor', 'actress', 'music', 'album', 'series', 'celebrity']],
+  ['politics', ['election', 'minister', 'parliament', 'government', 'senate', 'president', 'party']],
+  ['health', ['health', 'hospital', 'disease', 'vaccine', 'medical', 'doctor', 'virus']],
+  ['world', ['international', 'united nations', 'foreign', 'embassy', 'global']],
+];
+
+/**
+ * Pull a "Label: value" line out of a prompt
+ */
+function extractField(prompt: string, label: string): string {
+  const match = prompt.match(new RegExp(`^${label}:\\s*(.*)$`, 'm'));
+  return match ? match[1].trim() : '';
+}
+
+function classify(prompt: string): string {
+  const text = prompt.toLowerCase();
+  const match = CATEGORY_KEYWORDS.find(([, words]) => words.some(word => text.includes(word)));
+  return JSON.stringify({ category: match ? match[0] : 'news' });
+}
+
+function rephrase(prompt: string): string {
+  const title = extractField(prompt, 'Title') || 'Untitled';
+  const content = extractField(prompt, 'Content');
+  const sentences = (content.match(/[^.!?]+[.!?]+/g) || []).map(sentence => sentence.trim());
+
+  return JSON.stringify({
+    title,
+    content: sentences.join('\n\n') || content,
+    excerpt: sentences.slice(0, 2).join(' ') || title,
+  });
+}
+
+/**
+ * Deterministic offline provider for tests and local development
+ * Makes no network calls; output depends only on the prompt
+ */
+export function createStubProvider(): LLMProvider {
+  return {
+    name: 'stub',
+    model: 'stub-1',
+    isConfigured: () => true,
+    async generate(request: LLMRequest): Promise<LLMResponse> {
+      let text: string;
+      switch (request.task) {
+        case 'classify':
+          text = classify(request.prompt);
+          break;
+        case 'rephrase':
+          text = rephrase(request.prompt);
+          break;
+        default:
+          text = request.prompt;
+      }
+
+      // Rough token estimate so usage accounting can be exercised offline
+      const usage = { inputTokens: Math.ceil(request.prompt.length / 4), outputTokens: Math.ceil(text.length / 4) };
+      return { text, provider: 'stub', model: 'stub-1', usage };
+    },
+  };
+}
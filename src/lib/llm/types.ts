@@ -0,0 +1,82 @@
+/**
+ * Shared types for the pluggable LLM provider layer
+ */
+
+// What a request is for; lets the local stub produce a plausible answer
+export type LLMTask = 'rephrase' | 'classify' | 'repair' | 'generic';
+
+// What a call was made for, recorded with its usage (see src/lib/llmUsage.ts)
+export interface LLMCallContext {
+  sourceId?: string;
+  country?: string;
+  categorySlug?: string;
+  articleId?: string;
+  jobId?: string;
+  // Feed item guid; calls made before the article exists are attached to it afterwards
+  itemKey?: string;
+}
+
+export interface LLMRequest {
+  prompt: string;
+  task?: LLMTask;
+  temperature?: number;
+  maxOutputTokens?: number;
+  topP?: number;
+  // Ask for the provider's native JSON mode where it has one
+  responseFormat?: 'text' | 'json';
+  context?: LLMCallContext;
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  provider: string;
+  model: string;
+  // Token counts reported by the provider, when it reports them
+  usage?: LLMUsage;
+  // LlmCall row recording this call, when it was recorded
+  callId?: string | null;
+}
+
+export interface LLMProvider {
+  name: string;
+  model: string;
+  /** False when required credentials are missing, so the provider is skipped */
+  isConfigured(): boolean;
+  generate(request: LLMRequest): Promise<LLMResponse>;
+}
+
+/**
+ * Error raised by a provider; status mirrors the upstream HTTP status when known
+ */
+export class LLMProviderError extends Error {
+  status?: number;
+  provider: string;
+
+  constructor(provider: string, message: string, status?: number) {
+    super(message);
+    this.name = 'LLMProviderError';
+    this.provider = provider;
+    this.status = status;
+  }
+}
+
+/**
+ * Error raised when a response cannot be turned into the expected structure, even after repair
+ * output holds the last raw model text for debugging
+ */
+export class LLMOutputError extends Error {
+  output: string;
+  issues: string[];
+
+  constructor(message: string, output: string, issues: string[] = []) {
+    super(message);
+    this.name = 'LLMOutputError';
+    this.output = output;
+    this.issues = issues;
+  }
+}
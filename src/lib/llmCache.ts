@@ -0,0 +1,165 @@
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getPrimaryModel } from '@/lib/llm';
+import type { PromptName, ResolvedPrompt } from '@/lib/promptTemplates';
+
+/**
+ * Persistent cache for LLM results
+ *
+ * Entries are keyed by a hash of the task, the normalised input, the prompt version
+ * and the primary model, so the same feed item seen under several sources (or a
+ * retried job) does not pay for classification and rephrasing twice. Entries expire
+ * after LLM_CACHE_TTL_HOURS (0 disables the cache); hits and misses are counted per day.
+ */
+
+const TTL_HOURS = parseFloat(process.env.LLM_CACHE_TTL_HOURS || '72');
+
+export interface LlmCacheKey {
+  key: string;
+  task: PromptName;
+  promptKey: string;
+  model: string;
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+// Whitespace and Unicode form differences between feeds do not change the result
+function normaliseInput(text: string): string {
+  return text.normalize('NFC').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Identity of a prompt version; the built-in prompt is identified by a hash of its text and settings
+ */
+function promptKey(prompt: ResolvedPrompt): string {
+  if (prompt.templateId) {
+    return `${prompt.templateId}@v${prompt.version}`;
+  }
+  const hash = sha256(JSON.stringify([prompt.body, prompt.temperature, prompt.topP, prompt.maxOutputTokens]));
+  return `builtin:${prompt.name}@${hash.slice(0, 16)}`;
+}
+
+export function llmCacheKey(task: PromptName, prompt: ResolvedPrompt, input: Record<string, string>): LlmCacheKey {
+  const model = getPrimaryModel();
+  const version = promptKey(prompt);
+  const normalised = Object.keys(input).sort().map(name => [name, normaliseInput(input[name])]);
+
+  return {
+    key: sha256(JSON.stringify([task, version, model, normalised])),
+    task,
+    promptKey: version,
+    model,
+  };
+}
+
+function startOfUtcDay(date: Date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+async function recordLookup(task: string, hit: boolean): Promise<void> {
+  const day = startOfUtcDay();
+  await prisma.llmCacheStat.upsert({
+    where: { day_task: { day, task } },
+    create: { day, task, hits: hit ? 1 : 0, misses: hit ? 0 : 1 },
+    update: hit ? { hits: { increment: 1 } } : { misses: { increment: 1 } },
+  });
+}
+
+/**
+ * A cached result that is unexpired and still matches the task's schema, or null
+ * Cache problems are logged and count as a miss
+ */
+export async function getCachedResult<T>(cacheKey: LlmCacheKey, schema: z.ZodType<T>): Promise<T | null> {
+  if (TTL_HOURS <= 0) return null;
+
+  try {
+    const entry = await prisma.llmCacheEntry.findUnique({ where: { key: cacheKey.key } });
+
+    let result: T | null = null;
+    if (entry && entry.expiresAt > new Date()) {
+      const parsed = schema.safeParse(JSON.parse(entry.value));
+      if (parsed.success) result = parsed.data;
+    }
+
+    await recordLookup(cacheKey.task, result !== null);
+    if (result !== null) {
+      await prisma.llmCacheEntry.update({
+        where: { key: cacheKey.key },
+        data: { hits: { increment: 1 }, lastHitAt: new Date() },
+      });
+    }
+
+    return result;
+  } catch (error) {
+    console.error('LLM cache lookup failed:', (error as Error).message);
+    return null;
+  }
+}
+
+/**
+ * Store a result; failures are logged, never thrown
+ */
+export async function setCachedResult(cacheKey: LlmCacheKey, value: unknown): Promise<void> {
+  if (TTL_HOURS <= 0) return;
+
+  const expiresAt = new Date(Date.now() + TTL_HOURS * 60 * 60 * 1000);
+  const data = {
+    task: cacheKey.task,
+    promptKey: cacheKey.promptKey,
+    model: cacheKey.model,
+    value: JSON.stringify(value),
+    expiresAt,
+  };
+
+  try {
+    await prisma.llmCacheEntry.upsert({
+      where: { key: cacheKey.key },
+      create: { key: cacheKey.key, ...data },
+      update: { ...data, hits: 0, lastHitAt: null, createdAt: new Date() },
+    });
+  } catch (error) {
+    console.error('LLM cache write failed:', (error as Error).message);
+  }
+}
+
+/**
+ * Delete cache entries, optionally only expired ones or one task's; returns how many
+ */
+export async function purgeLlmCache(options: { task?: string; expiredOnly?: boolean } = {}): Promise<number> {
+  const { count } = await prisma.llmCacheEntry.deleteMany({
+    where: {
+      ...(options.task ? { task: options.task } : {}),
+      ...(options.expiredOnly ? { expiresAt: { lte: new Date() } } : {}),
+    },
+  });
+  return count;
+}
+
+/**
+ * Entry counts and daily hit/miss counters for the admin report
+ */
+export async function getLlmCacheStats(days: number) {
+  const since = startOfUtcDay(new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000));
+
+  const [entries, expired, daily] = await Promise.all([
+    prisma.llmCacheEntry.groupBy({ by: ['task'], _count: { _all: true }, _sum: { hits: true } }),
+    prisma.llmCacheEntry.count({ where: { expiresAt: { lte: new Date() } } }),
+    prisma.llmCacheStat.findMany({ where: { day: { gte: since } }, orderBy: { day: 'desc' } }),
+  ]);
+
+  const hits = daily.reduce((sum, d) => sum + d.hits, 0);
+  const misses = daily.reduce((sum, d) => sum + d.misses, 0);
+
+  return {
+    ttlHours: TTL_HOURS,
+    entries: entries.map(e => ({ task: e.task, count: e._count._all, hits: e._sum.hits || 0 })),
+    expired,
+    hits,
+    misses,
+    hitRate: hits + misses > 0 ? hits / (hits + misses) : 0,
+    daily,
+  };
+}
@@ -0,0 +1,205 @@
+import { prisma } from '@/lib/prisma';
+import type { LLMCallContext, LLMTask, LLMUsage } from '@/lib/llm/types';
+
+/**
+ * LLM usage accounting and daily budgets
+ *
+ * Every provider call is stored as an LlmCall with its tokens, estimated cost and
+ * what it was for. Budgets are in USD per UTC day, globally (LLM_DAILY_BUDGET_USD)
+ * and per country (LLM_COUNTRY_DAILY_BUDGET_USD, a JSON map such as {"INDIA": 2}).
+ * Past LLM_BUDGET_DEGRADE_AT of a budget ingestion saves calls; at 100% it stops.
+ */
+
+// USD per million tokens; LLM_PRICING (same JSON shape) adds or overrides models
+const DEFAULT_PRICING: Record<string, { input: number; output: number }> = {
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'stub-1': { input: 0, output: 0 },
+};
+
+function parseJsonEnv<T>(name: string, fallback: T): T {
+  const value = process.env[name];
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value);
+  } catch {
+    console.error(`Ignoring invalid JSON in ${name}`);
+    return fallback;
+  }
+}
+
+const PRICING = { ...DEFAULT_PRICING, ...parseJsonEnv<typeof DEFAULT_PRICING>('LLM_PRICING', {}) };
+const DAILY_BUDGET_USD = parseFloat(process.env.LLM_DAILY_BUDGET_USD || '0');
+const COUNTRY_BUDGETS_USD = parseJsonEnv<Record<string, number>>('LLM_COUNTRY_DAILY_BUDGET_USD', {});
+const DEGRADE_AT = parseFloat(process.env.LLM_BUDGET_DEGRADE_AT || '0.8');
+
+const warnedModels = new Set<string>();
+
+/**
+ * Estimated cost of a call in USD; models without a price count as free (with a warning)
+ */
+export function estimateCost(model: string, usage: LLMUsage): number {
+  const price = PRICING[model];
+  if (!price) {
+    if (!warnedModels.has(model)) {
+      console.warn(`No pricing for LLM model "${model}"; add it to LLM_PRICING to track its cost`);
+      warnedModels.add(model);
+    }
+    return 0;
+  }
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+export interface LlmCallRecord {
+  provider: string;
+  model: string;
+  task: LLMTask;
+  outcome: 'success' | 'error';
+  error?: string;
+  usage?: LLMUsage;
+  latencyMs: number;
+  context?: LLMCallContext;
+}
+
+/**
+ * Store one provider call; never throws, so accounting problems cannot break generation
+ * Returns the LlmCall id, or null when it could not be stored
+ */
+export async function recordLlmCall(record: LlmCallRecord): Promise<string | null> {
+  const usage = record.usage || { inputTokens: 0, outputTokens: 0 };
+
+  try {
+    const call = await prisma.llmCall.create({
+      data: {
+        provider: record.provider,
+        model: record.model,
+        task: record.task,
+        outcome: record.outcome,
+        error: record.error,
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        costUsd: estimateCost(record.model, usage),
+        latencyMs: record.latencyMs,
+        ...record.context,
+      },
+      select: { id: true },
+    });
+    return call.id;
+  } catch (error) {
+    console.error('Failed to record LLM call:', (error as Error).message);
+    return null;
+  }
+}
+
+/**
+ * Mark a successful call whose output failed schema validation
+ */
+export async function markLlmCallInvalid(callId: string | null | undefined, issues: string[]): Promise<void> {
+  if (!callId) return;
+  try {
+    await prisma.llmCall.update({
+      where: { id: callId },
+      data: { outcome: 'invalid', error: issues.join('; ') },
+    });
+  } catch (error) {
+    console.error('Failed to update LLM call:', (error as Error).message);
+  }
+}
+
+/**
+ * Link the calls made for a feed item to the article it became
+ */
+export async function attachLlmCallsToArticle(itemKey: string, articleId: string): Promise<void> {
+  await prisma.llmCall.updateMany({
+    where: { itemKey, articleId: null },
+    data: { articleId },
+  });
+}
+
+export type LlmBudgetState = 'ok' | 'degraded' | 'exhausted';
+
+export interface LlmBudgetStatus {
+  state: LlmBudgetState;
+  spentUsd: number;
+  // 0 when unlimited
+  limitUsd: number;
+  country: string | null;
+  countrySpentUsd: number;
+  countryLimitUsd: number;
+  resetsAt: Date;
+}
+
+function startOfUtcDay(date: Date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function budgetState(spent: number, limit: number): LlmBudgetState {
+  if (limit <= 0) return 'ok';
+  if (spent >= limit) return 'exhausted';
+  return spent >= limit * DEGRADE_AT ? 'degraded' : 'ok';
+}
+
+const STATE_ORDER: LlmBudgetState[] = ['ok', 'degraded', 'exhausted'];
+
+/**
+ * Today's spend against the global budget and, when given, the country's budget
+ * The state is the worse of the two
+ */
+export async function getLlmBudgetStatus(country?: string | null): Promise<LlmBudgetStatus> {
+  const dayStart = startOfUtcDay();
+  const countryLimit = country ? COUNTRY_BUDGETS_USD[country] || 0 : 0;
+
+  const [total, countryTotal] = await Promise.all([
+    prisma.llmCall.aggregate({
+      where: { createdAt: { gte: dayStart } },
+      _sum: { costUsd: true },
+    }),
+    country
+      ? prisma.llmCall.aggregate({
+        where: { createdAt: { gte: dayStart }, country },
+        _sum: { costUsd: true },
+      })
+      : null,
+  ]);
+
+  const spentUsd = total._sum.costUsd || 0;
+  const countrySpentUsd = countryTotal?._sum.costUsd || 0;
+  const states = [budgetState(spentUsd, DAILY_BUDGET_USD), budgetState(countrySpentUsd, countryLimit)];
+
+  return {
+    state: STATE_ORDER[Math.max(...states.map(s => STATE_ORDER.indexOf(s)))],
+    spentUsd,
+    limitUsd: DAILY_BUDGET_USD,
+    country: country || null,
+    countrySpentUsd,
+    countryLimitUsd: countryLimit,
+    resetsAt: new Date(dayStart.getTime() + 24 * 60 * 60 * 1000),
+  };
+}
+
+/**
+ * Configured budgets, for the admin report
+ */
+export function getLlmBudgets(): { dailyUsd: number; countryDailyUsd: Record<string, number>; degradeAt: number } {
+  return { dailyUsd: DAILY_BUDGET_USD, countryDailyUsd: COUNTRY_BUDGETS_USD, degradeAt: DEGRADE_AT };
+}
+
+/**
+ * Raised when the day's LLM budget is spent; ingestion jobs are deferred until resetsAt
+ */
+export class LlmBudgetExceededError extends Error {
+  resetsAt: Date;
+
+  constructor(status: LlmBudgetStatus) {
+    const scope = status.countryLimitUsd > 0 && status.countrySpentUsd >= status.countryLimitUsd
+      ? `${status.country} daily LLM budget`
+      : 'Daily LLM budget';
+    super(`${scope} reached; resumes at ${status.resetsAt.toISOString()}`);
+    this.name = 'LlmBudgetExceededError';
+    this.resetsAt = status.resetsAt;
+  }
+}
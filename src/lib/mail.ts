@@ -71,3 +71,60 @@ export const sendPasswordResetEmail = async (email: string, otp: string) => {
         throw new Error('Failed to send reset email');
     }
 };
+
+export const sendNewsletterConfirmationEmail = async (email: string, confirmUrl: string) => {
+    const mailOptions = {
+        from: `"True Line News" <${process.env.FROM_EMAIL}>`,
+        to: email,
+        subject: 'Confirm your subscription - True Line News',
+        html: `
+            <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; border: 1px solid #eee; border-radius: 10px;">
+                <h2 style="color: #2d3748; text-align: center;">Confirm Your Subscription</h2>
+                <p>Hello,</p>
+                <p>Thanks for subscribing to the True Line News newsletter. Please confirm your email address to start receiving our digest:</p>
+                <div style="text-align: center; margin: 30px 0;">
+                    <a href="${confirmUrl}" style="background: #2d3748; color: #ffffff; padding: 14px 28px; border-radius: 8px; text-decoration: none; font-weight: bold;">Confirm Subscription</a>
+                </div>
+                <p>This link will expire in 48 hours.</p>
+                <p>If you did not subscribe, please ignore this email.</p>
+                <p style="margin-top: 40px; border-top: 1px solid #eee; padding-top: 20px; font-size: 12px; color: #718096; text-align: center;">
+                    &copy; ${new Date().getFullYear()} True Line News. All rights reserved.
+                </p>
+            </div>
+        `,
+        text: `Thanks for subscribing to the True Line News newsletter.\n\nConfirm your subscription: ${confirmUrl}\n\nThis link will expire in 48 hours. If you did not subscribe, please ignore this email.`,
+    };
+
+    try {
+        await transporter.sendMail(mailOptions);
+        console.log(`Newsletter confirmation email sent successfully to ${email}`);
+    } catch (error) {
+        console.error('Error sending newsletter confirmation email:', error);
+        throw new Error('Failed to send confirmation email');
+    }
+};
+
+export interface EmailContent {
+    subject: string;
+    html: string;
+    text: string;
+}
+
+export const sendNewsletterEmail = async (
+    email: string,
+    content: EmailContent,
+    headers?: Record<string, string>
+): Promise<string> => {
+    const mailOptions = {
+        from: `"True Line News" <${process.env.FROM_EMAIL}>`,
+        to: email,
+        subject: content.subject,
+        html: content.html,
+        text: content.text,
+        headers,
+    };
+
+    // Callers record per-recipient failures, so the error is passed through
+    const info = await transporter.sendMail(mailOptions);
+    return info.messageId;
+};
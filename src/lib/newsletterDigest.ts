@@ -0,0 +1,360 @@
+import { Newsletter, NewsletterDigest, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { sendNewsletterEmail, EmailContent } from '@/lib/mail';
+import { SITE_NAME, absoluteUrl } from '@/lib/site';
+import {
+  NEWSLETTER_FREQUENCIES,
+  NewsletterFrequency,
+  listUnsubscribeHeaders,
+  parseCategories,
+  preferencesUrl,
+  unsubscribeUrl,
+} from '@/lib/newsletterSubscription';
+
+const ARTICLES_PER_CATEGORY = parseInt(process.env.DIGEST_ARTICLES_PER_CATEGORY || '3');
+const BATCH_SIZE = parseInt(process.env.DIGEST_BATCH_SIZE || '50');
+
+// Candidates kept per category so country preferences still have articles to choose from
+const CANDIDATES_PER_CATEGORY = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FREQUENCY_PERIOD_MS: Record<NewsletterFrequency, number> = {
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+};
+
+export interface DigestArticle {
+  id: string;
+  title: string;
+  slug: string;
+  excerpt: string | null;
+  country: string | null;
+  views: number;
+}
+
+export interface DigestSection {
+  category: { name: string; slug: string };
+  articles: DigestArticle[];
+}
+
+/**
+ * Pick the most viewed articles per category published within a period
+ * Views come from the Analytics row for each article path; unseen articles rank by recency
+ */
+export async function selectTopArticles(
+  periodStart: Date,
+  periodEnd: Date,
+  perCategory: number = CANDIDATES_PER_CATEGORY
+): Promise<DigestSection[]> {
+  const articles = await prisma.article.findMany({
+    where: {
+      published: true,
+      publishedAt: { gte: periodStart, lt: periodEnd },
+    },
+    select: {
+      id: true,
+      title: true,
+      slug: true,
+      excerpt: true,
+      country: true,
+      publishedAt: true,
+      category: { select: { name: true, slug: true } },
+    },
+    orderBy: { publishedAt: 'desc' },
+  });
+
+  const analytics = await prisma.analytics.findMany({
+    where: { path: { in: articles.map(a => `/article/${a.slug}`) } },
+    select: { path: true, views: true },
+  });
+  const viewsByPath = new Map(analytics.map(a => [a.path, a.views]));
+
+  const sections = new Map<string, DigestSection>();
+  for (const article of articles) {
+    let section = sections.get(article.category.slug);
+    if (!section) {
+      section = { category: article.category, articles: [] };
+      sections.set(article.category.slug, section);
+    }
+    section.articles.push({
+      id: article.id,
+      title: article.title,
+      slug: article.slug,
+      excerpt: article.excerpt,
+      country: article.country,
+      views: viewsByPath.get(`/article/${article.slug}`) || 0,
+    });
+  }
+
+  // Articles are already newest first, and sort() is stable, so ties stay by recency
+  const totalViews = (section: DigestSection) => section.articles.reduce((sum, a) => sum + a.views, 0);
+  return Array.from(sections.values())
+    .map(section => ({
+      ...section,
+      articles: section.articles.sort((a, b) => b.views - a.views).slice(0, perCategory),
+    }))
+    .sort((a, b) => totalViews(b) - totalViews(a));
+}
+
+/**
+ * Narrow digest sections to a subscriber's categories and country
+ * Articles from their country come first; other countries fill the remaining slots
+ */
+export function sectionsForSubscriber(
+  sections: DigestSection[],
+  subscriber: Pick<Newsletter, 'categories' | 'country'>,
+  perCategory: number = ARTICLES_PER_CATEGORY
+): DigestSection[] {
+  const categories = parseCategories(subscriber.categories);
+
+  return sections
+    .filter(section => !categories || categories.includes(section.category.slug))
+    .map(section => {
+      const local = section.articles.filter(a => subscriber.country && a.country === subscriber.country);
+      const others = section.articles.filter(a => !local.includes(a));
+      return { ...section, articles: [...local, ...others].slice(0, perCategory) };
+    })
+    .filter(section => section.articles.length > 0);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatDateRange(periodStart: Date, periodEnd: Date): string {
+  return `${periodStart.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} – ${periodEnd.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+}
+
+/**
+ * Render a subscriber's digest as an HTML and plain-text email
+ */
+export function renderDigestEmail(
+  digest: Pick<NewsletterDigest, 'subject' | 'periodStart' | 'periodEnd'>,
+  sections: DigestSection[],
+  subscriberId: string
+): EmailContent {
+  const dateRange = formatDateRange(digest.periodStart, digest.periodEnd);
+  const manageUrl = preferencesUrl(subscriberId);
+  const leaveUrl = unsubscribeUrl(subscriberId);
+
+  const htmlSections = sections.map(section => `
+                <h3 style="color: #2d3748; border-bottom: 1px solid #eee; padding-bottom: 6px; margin-top: 32px;">${escapeHtml(section.category.name)}</h3>
+                ${section.articles.map(article => `
+                <div style="margin: 16px 0;">
+                    <a href="${absoluteUrl(`/article/${article.slug}`)}" style="color: #1a202c; font-size: 17px; font-weight: bold; text-decoration: none;">${escapeHtml(article.title)}</a>
+                    ${article.excerpt ? `<p style="color: #4a5568; margin: 6px 0 0 0;">${escapeHtml(article.excerpt)}</p>` : ''}
+                </div>`).join('')}`).join('');
+
+  const html = `
+            <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; border: 1px solid #eee; border-radius: 10px;">
+                <h2 style="color: #2d3748; text-align: center;">${SITE_NAME} Digest</h2>
+                <p style="text-align: center; color: #718096;">Top stories for ${dateRange}</p>
+                ${htmlSections}
+                <p style="margin-top: 40px; border-top: 1px solid #eee; padding-top: 20px; font-size: 12px; color: #718096; text-align: center;">
+                    You are receiving this because you subscribed to the ${SITE_NAME} newsletter.<br />
+                    <a href="${manageUrl}" style="color: #718096;">Manage preferences</a> &middot; <a href="${leaveUrl}" style="color: #718096;">Unsubscribe</a><br />
+                    &copy; ${new Date().getFullYear()} ${SITE_NAME}. All rights reserved.
+                </p>
+            </div>
+        `;
+
+  const text = [
+    `${SITE_NAME} Digest`,
+    `Top stories for ${dateRange}`,
+    ...sections.map(section => [
+      '',
+      section.category.name.toUpperCase(),
+      ...section.articles.map(article => `- ${article.title}\n  ${absoluteUrl(`/article/${article.slug}`)}`),
+    ].join('\n')),
+    '',
+    `You are receiving this because you subscribed to the ${SITE_NAME} newsletter.`,
+    `Manage preferences: ${manageUrl}`,
+    `Unsubscribe: ${leaveUrl}`,
+  ].join('\n');
+
+  return { subject: digest.subject, html, text };
+}
+
+// Confirmed, still-subscribed readers on a given schedule
+function activeSubscribers(frequency: string): Prisma.NewsletterWhereInput {
+  return { frequency, confirmedAt: { not: null }, unsubscribedAt: null };
+}
+
+/**
+ * Build and store the digest for a frequency, covering the period since the previous one
+ * Returns null when it is not yet due, nothing was published in the period, or an
+ * overlapping run created it first (that run sends it)
+ */
+export async function createDueDigest(
+  frequency: NewsletterFrequency,
+  now: Date = new Date()
+): Promise<NewsletterDigest | null> {
+  const last = await prisma.newsletterDigest.findFirst({
+    where: { frequency },
+    orderBy: { periodEnd: 'desc' },
+    select: { periodEnd: true },
+  });
+
+  const periodMs = FREQUENCY_PERIOD_MS[frequency];
+  if (last && now.getTime() - last.periodEnd.getTime() < periodMs) {
+    return null;
+  }
+
+  // The first digest starts at a UTC midnight, so overlapping first runs pick the same period
+  const periodStart = last ? last.periodEnd : new Date(Math.floor(now.getTime() / DAY_MS) * DAY_MS - periodMs);
+  const sections = await selectTopArticles(periodStart, now);
+  if (sections.length === 0) {
+    return null;
+  }
+
+  const recipients = await prisma.newsletter.count({ where: activeSubscribers(frequency) });
+
+  try {
+    return await prisma.newsletterDigest.create({
+      data: {
+        frequency,
+        periodStart,
+        periodEnd: now,
+        subject: `Your ${frequency} ${SITE_NAME} digest: ${formatDateRange(periodStart, now)}`,
+        sections: JSON.stringify(sections),
+        recipients,
+      },
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Claim a subscriber for a digest by creating their delivery row before anything is sent
+ * Returns the row id, or null when another run already claimed them
+ */
+async function claimDelivery(digestId: string, subscriber: Newsletter): Promise<string | null> {
+  try {
+    const delivery = await prisma.newsletterDelivery.create({
+      data: { digestId, subscriberId: subscriber.id, email: subscriber.email, status: 'sending' },
+      select: { id: true },
+    });
+    return delivery.id;
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Send a digest to subscribers who have no delivery for it yet, in batches
+ * Each subscriber's delivery row is claimed before their email is sent and updated right after,
+ * so an interrupted or overlapping run never emails anyone twice
+ */
+export async function deliverDigest(
+  digest: NewsletterDigest,
+  timeBudgetMs: number
+): Promise<{ sent: number; failed: number; skipped: number; remaining: number }> {
+  const startTime = Date.now();
+  const stats = { sent: 0, failed: 0, skipped: 0 };
+  const sections: DigestSection[] = JSON.parse(digest.sections);
+  const pendingWhere: Prisma.NewsletterWhereInput = {
+    ...activeSubscribers(digest.frequency),
+    deliveries: { none: { digestId: digest.id } },
+  };
+  const withinBudget = () => Date.now() - startTime < timeBudgetMs;
+
+  while (withinBudget()) {
+    const batch = await prisma.newsletter.findMany({
+      where: pendingWhere,
+      orderBy: { createdAt: 'asc' },
+      take: BATCH_SIZE,
+    });
+    if (batch.length === 0) break;
+
+    // Sent one at a time to stay within SMTP provider rate limits
+    for (const subscriber of batch) {
+      if (!withinBudget()) break;
+
+      const deliveryId = await claimDelivery(digest.id, subscriber);
+      if (!deliveryId) continue;
+
+      const personal = sectionsForSubscriber(sections, subscriber);
+      if (personal.length === 0) {
+        await prisma.newsletterDelivery.update({ where: { id: deliveryId }, data: { status: 'skipped' } });
+        stats.skipped++;
+        continue;
+      }
+
+      let outcome: Prisma.NewsletterDeliveryUpdateInput;
+      try {
+        const messageId = await sendNewsletterEmail(
+          subscriber.email,
+          renderDigestEmail(digest, personal, subscriber.id),
+          listUnsubscribeHeaders(subscriber.id)
+        );
+        outcome = { status: 'sent', messageId, sentAt: new Date() };
+        stats.sent++;
+      } catch (error) {
+        console.error(`Digest ${digest.id} failed for ${subscriber.email}:`, error);
+        outcome = { status: 'failed', error: (error as Error).message, sentAt: new Date() };
+        stats.failed++;
+      }
+
+      await prisma.newsletterDelivery.update({ where: { id: deliveryId }, data: outcome });
+    }
+  }
+
+  const remaining = await prisma.newsletter.count({ where: pendingWhere });
+  const [sentCount, failedCount] = await Promise.all([
+    prisma.newsletterDelivery.count({ where: { digestId: digest.id, status: 'sent' } }),
+    prisma.newsletterDelivery.count({ where: { digestId: digest.id, status: 'failed' } }),
+  ]);
+
+  await prisma.newsletterDigest.update({
+    where: { id: digest.id },
+    data: {
+      sentCount,
+      failedCount,
+      ...(remaining === 0
+        ? { status: sentCount === 0 && failedCount > 0 ? 'failed' : 'sent', completedAt: new Date() }
+        : {}),
+    },
+  });
+
+  return { ...stats, remaining };
+}
+
+/**
+ * For each frequency, finish a digest still sending, otherwise create and send the next one when due
+ */
+export async function runNewsletterDigest(options: { timeBudgetMs: number }) {
+  const startTime = Date.now();
+  const results = [];
+
+  for (const frequency of NEWSLETTER_FREQUENCIES) {
+    const budgetLeft = options.timeBudgetMs - (Date.now() - startTime);
+    if (budgetLeft <= 0) break;
+
+    let digest = await prisma.newsletterDigest.findFirst({
+      where: { frequency, status: 'sending' },
+      orderBy: { createdAt: 'asc' },
+    });
+    const created = !digest;
+
+    if (!digest) {
+      digest = await createDueDigest(frequency);
+    }
+    if (!digest) continue;
+
+    const stats = await deliverDigest(digest, budgetLeft);
+    results.push({ frequency, digestId: digest.id, created, ...stats });
+  }
+
+  return { digests: results };
+}
@@ -0,0 +1,98 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { absoluteUrl } from '@/lib/site';
+
+export const NEWSLETTER_FREQUENCIES = ['daily', 'weekly'] as const;
+export type NewsletterFrequency = typeof NEWSLETTER_FREQUENCIES[number];
+
+// How long a double opt-in link stays valid
+export const CONFIRM_TOKEN_TTL_MS = 48 * 60 * 60 * 1000;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function isValidEmail(email: unknown): email is string {
+  return typeof email === 'string' && email.length <= 254 && EMAIL_PATTERN.test(email);
+}
+
+export function isNewsletterFrequency(value: unknown): value is NewsletterFrequency {
+  return NEWSLETTER_FREQUENCIES.includes(value as NewsletterFrequency);
+}
+
+/**
+ * Random token for the confirmation email
+ */
+export function createConfirmToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+function getSecret(): string {
+  const secret = process.env.NEWSLETTER_SECRET || process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error('NEWSLETTER_SECRET or NEXTAUTH_SECRET must be set to sign newsletter links');
+  }
+  return secret;
+}
+
+function signature(subscriberId: string): string {
+  return createHmac('sha256', getSecret()).update(`newsletter:${subscriberId}`).digest('base64url');
+}
+
+/**
+ * Signed token identifying a subscriber in unsubscribe and preferences links
+ * It does not expire, so links in old emails keep working
+ */
+export function signSubscriberToken(subscriberId: string): string {
+  return `${subscriberId}.${signature(subscriberId)}`;
+}
+
+/**
+ * Return the subscriber id from a signed token, or null when the signature does not match
+ */
+export function verifySubscriberToken(token: string | null | undefined): string | null {
+  if (!token) return null;
+
+  const [subscriberId, sig] = token.split('.');
+  if (!subscriberId || !sig) return null;
+
+  const expected = Buffer.from(signature(subscriberId));
+  const actual = Buffer.from(sig);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  return subscriberId;
+}
+
+export function confirmUrl(confirmToken: string): string {
+  return absoluteUrl(`/api/newsletter/confirm?token=${encodeURIComponent(confirmToken)}`);
+}
+
+export function unsubscribeUrl(subscriberId: string): string {
+  return absoluteUrl(`/api/newsletter/unsubscribe?token=${encodeURIComponent(signSubscriberToken(subscriberId))}`);
+}
+
+export function preferencesUrl(subscriberId: string): string {
+  return absoluteUrl(`/newsletter/preferences?token=${encodeURIComponent(signSubscriberToken(subscriberId))}`);
+}
+
+/**
+ * RFC 2369 / RFC 8058 headers so mail clients can offer one-click unsubscribe
+ */
+export function listUnsubscribeHeaders(subscriberId: string): Record<string, string> {
+  return {
+    'List-Unsubscribe': `<${unsubscribeUrl(subscriberId)}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+  };
+}
+
+/**
+ * Parse the stored category list; null means every category
+ */
+export function parseCategories(value: string | null): string[] | null {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) && parsed.length > 0 ? parsed.map(String) : null;
+  } catch {
+    return null;
+  }
+}
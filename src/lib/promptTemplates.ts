@@ -0,0 +1,245 @@
+import { PromptTemplate } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { generateText, LLMResponse } from '@/lib/llm';
+
+/**
+ * Versioned LLM prompt templates
+ *
+ * Prompts live in the PromptTemplate table with {{variable}} placeholders and
+ * generation settings. The active version for an article's category wins over
+ * the active default; with neither, the built-in prompt below is used.
+ */
+
+export const PROMPT_NAMES = ['rephrase', 'classify'] as const;
+export type PromptName = typeof PROMPT_NAMES[number];
+
+// Placeholders each prompt is rendered with
+export const PROMPT_VARIABLES: Record<PromptName, string[]> = {
+  rephrase: ['title', 'content', 'category'],
+  classify: ['title', 'content'],
+};
+
+export interface PromptSettings {
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+}
+
+export interface ResolvedPrompt extends PromptSettings {
+  // Null for the built-in prompt
+  templateId: string | null;
+  name: PromptName;
+  categorySlug: string | null;
+  // 0 for the built-in prompt
+  version: number;
+  body: string;
+}
+
+const BUILT_IN_REPHRASE = `You are a professional blog content writer. Transform the following news article into a comprehensive, engaging blog post while maintaining complete factual accuracy.
+
+**CRITICAL RULES:**
+1. Maintain ALL factual information from the source - do not add, remove, or change any facts
+2. EXPAND the content to 2-3 times the original length by adding context, explanations, and details
+3. Use a conversational, engaging blog writing style (not news reporting style)
+4. Create a proper blog structure: introduction paragraph, detailed body sections, conclusion
+5. Break content into well-structured paragraphs (3-5 sentences each)
+6. Preserve all names, dates, numbers, and quoted material exactly
+7. Add transitional phrases between paragraphs for better flow
+8. Expand on key points with more context and explanation
+9. Do NOT add fictional information - only expand on facts already present
+
+**Original Article:**
+Title: {{title}}
+Content: {{content}}
+Category: {{category}}
+
+**Instructions:**
+1. Create an engaging, catchy blog post title (keep original meaning but make it more compelling)
+2. Write a strong introduction paragraph that hooks the reader
+3. Expand the main content into detailed, well-structured body paragraphs (aim for 2-3x the original length)
+4. Add a brief conclusion that summarizes the key takeaways
+5. Use conversational language and engaging transitions
+6. Create a compelling 2-3 sentence excerpt that entices readers
+
+**Blog Post Structure:**
+- Introduction: Set the scene and introduce the topic engagingly
+- Body: Expand each key point into its own detailed paragraph with context and explanation
+- Conclusion: Brief wrap-up of main points and their significance
+- Use paragraph breaks for readability
+
+**Response Format:**
+Return ONLY a valid JSON object with this exact structure:
+{
+  "title": "your compelling blog post title here",
+  "content": "your expanded blog content here with proper paragraph structure (use \\n\\n for paragraph breaks)",
+  "excerpt": "your 2-3 sentence compelling summary here"
+}
+
+Do not include any markdown formatting, code blocks, or additional text. Only return the raw JSON object.`;
+
+const BUILT_IN_CLASSIFY = `Analyze the following article and determine which category it belongs to.
+
+**Article:**
+Title: {{title}}
+Content: {{content}}
+
+**Available Categories:**
+1. sports - Sports news, athletes, games, tournaments, scores, teams
+2. business - Business news, economy, finance, markets, companies, startups
+3. technology - Tech news, gadgets, software, AI, apps, innovations
+4. entertainment - Movies, TV shows, celebrities, music, awards, films, actors, entertainment industry
+5. politics - Political news, government, elections, policies, politicians
+6. health - Health news, medical, wellness, diseases, treatments
+7. world - International news, global events, foreign affairs
+8. news - General news that doesn't fit other categories
+
+**Instructions:**
+- If the article is about movies, TV shows, celebrities, actors, films, entertainment awards, or the entertainment industry, classify it as "entertainment"
+- If it's about sports events, athletes, or games, classify it as "sports"
+- If it's about business, economy, or companies, classify it as "business"
+- If it's about technology, gadgets, or software, classify it as "technology"
+- If it's about politics, government, or elections, classify it as "politics"
+- If it's about health, medical topics, or wellness, classify it as "health"
+- If it's about international or world events, classify it as "world"
+- Only use "news" if it doesn't clearly fit any other category
+
+**Response Format:**
+Return ONLY a valid JSON object with this exact structure:
+{
+  "category": "one of: sports, business, technology, entertainment, politics, health, world, news"
+}`;
+
+export const BUILT_IN_PROMPTS: Record<PromptName, { body: string } & PromptSettings> = {
+  rephrase: {
+    body: BUILT_IN_REPHRASE,
+    temperature: 0.8, // Higher creativity for engaging blog writing
+    maxOutputTokens: 4096, // Allow longer blog posts
+    topP: 0.95,
+  },
+  classify: {
+    body: BUILT_IN_CLASSIFY,
+    temperature: 0.3, // Lower temperature for more consistent classification
+    maxOutputTokens: 50,
+  },
+};
+
+export function isPromptName(value: string): value is PromptName {
+  return (PROMPT_NAMES as readonly string[]).includes(value);
+}
+
+/**
+ * Validate optional generation settings from an admin request
+ * Returns an error message for the first out-of-range value
+ */
+export function parsePromptSettings(input: {
+  temperature?: unknown;
+  topP?: unknown;
+  maxOutputTokens?: unknown;
+}): { settings: PromptSettings; error?: string } {
+  const settings: PromptSettings = {};
+  const value = (raw: unknown) => (raw === undefined || raw === null || raw === '' ? undefined : Number(raw));
+
+  const temperature = value(input.temperature);
+  if (temperature !== undefined) {
+    if (!(temperature >= 0 && temperature <= 2)) return { settings, error: 'Temperature must be between 0 and 2' };
+    settings.temperature = temperature;
+  }
+
+  const topP = value(input.topP);
+  if (topP !== undefined) {
+    if (!(topP > 0 && topP <= 1)) return { settings, error: 'Top P must be between 0 and 1' };
+    settings.topP = topP;
+  }
+
+  const maxOutputTokens = value(input.maxOutputTokens);
+  if (maxOutputTokens !== undefined) {
+    if (!Number.isInteger(maxOutputTokens) || maxOutputTokens < 1 || maxOutputTokens > 32768) {
+      return { settings, error: 'Max output tokens must be a whole number between 1 and 32768' };
+    }
+    settings.maxOutputTokens = maxOutputTokens;
+  }
+
+  return { settings };
+}
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Placeholders in a template body that the prompt is not rendered with
+ */
+export function findUnknownVariables(name: PromptName, body: string): string[] {
+  const unknown = Array.from(body.matchAll(PLACEHOLDER), match => match[1])
+    .filter(variable => !PROMPT_VARIABLES[name].includes(variable));
+  return Array.from(new Set(unknown));
+}
+
+/**
+ * Substitute {{variable}} placeholders; unknown placeholders are left as written
+ */
+export function renderPrompt(body: string, variables: Record<string, string>): string {
+  return body.replace(PLACEHOLDER, (placeholder, key: string) =>
+    key in variables ? variables[key] : placeholder
+  );
+}
+
+function fromTemplate(template: PromptTemplate): ResolvedPrompt {
+  const builtIn = BUILT_IN_PROMPTS[template.name as PromptName];
+  return {
+    templateId: template.id,
+    name: template.name as PromptName,
+    categorySlug: template.categorySlug,
+    version: template.version,
+    body: template.body,
+    // Unset settings keep the built-in defaults
+    temperature: template.temperature ?? builtIn.temperature,
+    topP: template.topP ?? builtIn.topP,
+    maxOutputTokens: template.maxOutputTokens ?? builtIn.maxOutputTokens,
+  };
+}
+
+function builtInPrompt(name: PromptName): ResolvedPrompt {
+  return { templateId: null, name, categorySlug: null, version: 0, ...BUILT_IN_PROMPTS[name] };
+}
+
+/**
+ * The prompt to use for a name and category: the active category override,
+ * then the active default, then the built-in prompt
+ */
+export async function resolvePrompt(name: PromptName, categorySlug?: string | null): Promise<ResolvedPrompt> {
+  try {
+    const templates = await prisma.promptTemplate.findMany({
+      where: {
+        name,
+        active: true,
+        OR: [{ categorySlug: null }, ...(categorySlug ? [{ categorySlug }] : [])],
+      },
+    });
+
+    const template = templates.find(t => t.categorySlug === categorySlug) || templates.find(t => t.categorySlug === null);
+    return template ? fromTemplate(template) : builtInPrompt(name);
+  } catch (error) {
+    // Ingestion keeps working on the built-in prompt if the table is unavailable
+    console.error(`Failed to load "${name}" prompt template, using the built-in prompt:`, (error as Error).message);
+    return builtInPrompt(name);
+  }
+}
+
+/**
+ * Render a prompt and run it once, returning the raw model output for the admin preview
+ */
+export async function previewPrompt(
+  prompt: Pick<ResolvedPrompt, 'name' | 'body'> & PromptSettings,
+  variables: Record<string, string>
+): Promise<{ prompt: string } & LLMResponse> {
+  const builtIn = BUILT_IN_PROMPTS[prompt.name];
+  const rendered = renderPrompt(prompt.body, variables);
+  const response = await generateText({
+    prompt: rendered,
+    task: prompt.name,
+    temperature: prompt.temperature ?? builtIn.temperature,
+    topP: prompt.topP ?? builtIn.topP,
+    maxOutputTokens: prompt.maxOutputTokens ?? builtIn.maxOutputTokens,
+  });
+
+  return { prompt: rendered, ...response };
+}
@@ -0,0 +1,189 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { STORY_SIMILARITY_THRESHOLD, estimateSimilarity, tokenize } from '@/lib/dedup';
+import { RESPONSIVE_IMAGE_SELECT, responsiveImage } from '@/lib/imagePipeline';
+import type { ResponsiveImage } from '@/types/image';
+
+/**
+ * Related articles for the article page
+ *
+ * Candidates are recent articles from the same category plus full-text matches on
+ * the article's title terms. Each is scored on shared category, shared named
+ * entities, title overlap, content similarity (the MinHash signatures from dedup.ts)
+ * and closeness in time. Other reports of the same story are left out: they are
+ * linked from the story page instead, and would otherwise fill the rail.
+ */
+
+const WEIGHTS = {
+  category: 0.2,
+  entities: 0.3,
+  title: 0.2,
+  content: 0.2,
+  recency: 0.1,
+};
+
+// Recency score halves for every this many days between the two articles
+const RECENCY_HALF_LIFE_DAYS = 3;
+const CATEGORY_CANDIDATES = 100;
+const SEARCH_CANDIDATES = 50;
+// Titles this similar are rewrites of each other even without a shared cluster
+const DUPLICATE_TITLE_SIMILARITY = 0.8;
+// Entities are read from the title and the start of the text
+const ENTITY_TEXT_LENGTH = 1500;
+
+export const MAX_RELATED_ARTICLES = 12;
+
+export interface RelatedArticle {
+  id: string;
+  slug: string;
+  title: string;
+  excerpt: string | null;
+  image: string | null;
+  imageSet: ResponsiveImage | null;
+  category: string;
+  categorySlug: string;
+  author: string;
+  publishedAt: Date;
+  readTime: string;
+  score: number;
+}
+
+const ARTICLE_SELECT = {
+  id: true,
+  slug: true,
+  title: true,
+  excerpt: true,
+  content: true,
+  image: true,
+  categoryId: true,
+  fingerprint: true,
+  storyClusterId: true,
+  publishedAt: true,
+  createdAt: true,
+  category: { select: { name: true, slug: true } },
+  author: { select: { name: true } },
+  imageAsset: { select: RESPONSIVE_IMAGE_SELECT },
+} satisfies Prisma.ArticleSelect;
+
+type ScoredArticle = Prisma.ArticleGetPayload<{ select: typeof ARTICLE_SELECT }>;
+
+/**
+ * Capitalised names and acronyms ("European Central Bank", "NASA"), lowercased
+ * Sentence-initial words are caught too; tokenize drops the common ones
+ */
+export function extractEntities(text: string): Set<string> {
+  const entities = new Set<string>();
+  const pattern = /\b(?:\p{Lu}[\p{L}'’-]+|\p{Lu}{2,})(?:\s+(?:\p{Lu}[\p{L}'’-]+|\p{Lu}{2,}))*/gu;
+
+  for (const match of text.matchAll(pattern)) {
+    const words = tokenize(match[0]);
+    if (words.length > 0) entities.add(words.join(' '));
+  }
+  return entities;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const value of a) {
+    if (b.has(value)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+function dateOf(article: { publishedAt: Date | null; createdAt: Date }): Date {
+  return article.publishedAt || article.createdAt;
+}
+
+/**
+ * Published articles whose search vector matches any of the title's content words
+ */
+async function searchCandidateIds(articleId: string, title: string): Promise<string[]> {
+  const terms = Array.from(new Set(tokenize(title))).slice(0, 8);
+  if (terms.length === 0) return [];
+
+  // tokenize leaves only letters and digits, so the terms are safe tsquery operands
+  const query = terms.join(' | ');
+  const rows = await prisma.$queryRaw<Array<{ id: string }>>`
+    SELECT a."id"
+    FROM "Article" a
+    WHERE a."published" = true
+      AND a."id" <> ${articleId}
+      AND a."searchVector" @@ to_tsquery('english', ${query})
+    ORDER BY ts_rank_cd(a."searchVector", to_tsquery('english', ${query})) DESC
+    LIMIT ${SEARCH_CANDIDATES}
+  `;
+  return rows.map(row => row.id);
+}
+
+/**
+ * Related published articles for an article, best first
+ * Returns null when the article does not exist or is not published
+ */
+export async function getRelatedArticles(slug: string, limit: number = 4): Promise<RelatedArticle[] | null> {
+  const article = await prisma.article.findUnique({
+    where: { slug, published: true },
+    select: ARTICLE_SELECT,
+  });
+  if (!article) return null;
+
+  const [recentInCategory, searchIds] = await Promise.all([
+    prisma.article.findMany({
+      where: { published: true, categoryId: article.categoryId, id: { not: article.id } },
+      orderBy: { createdAt: 'desc' },
+      take: CATEGORY_CANDIDATES,
+      select: ARTICLE_SELECT,
+    }),
+    searchCandidateIds(article.id, article.title),
+  ]);
+
+  const seen = new Set(recentInCategory.map(candidate => candidate.id));
+  const missingIds = searchIds.filter(id => !seen.has(id));
+  const searchMatches = missingIds.length > 0
+    ? await prisma.article.findMany({ where: { id: { in: missingIds } }, select: ARTICLE_SELECT })
+    : [];
+
+  const titleWords = new Set(tokenize(article.title));
+  const entities = extractEntities(`${article.title}\n${article.content.substring(0, ENTITY_TEXT_LENGTH)}`);
+  const articleTime = dateOf(article).getTime();
+
+  const scored = [...recentInCategory, ...searchMatches].flatMap((candidate: ScoredArticle) => {
+    const titleSimilarity = jaccard(titleWords, new Set(tokenize(candidate.title)));
+    const contentSimilarity = estimateSimilarity(article.fingerprint, candidate.fingerprint);
+
+    // Near-duplicates: the same story from another source, or the same text
+    const sameStory = !!article.storyClusterId && candidate.storyClusterId === article.storyClusterId;
+    if (sameStory || contentSimilarity >= STORY_SIMILARITY_THRESHOLD || titleSimilarity >= DUPLICATE_TITLE_SIMILARITY) {
+      return [];
+    }
+
+    const candidateEntities = extractEntities(`${candidate.title}\n${candidate.content.substring(0, ENTITY_TEXT_LENGTH)}`);
+    const daysApart = Math.abs(articleTime - dateOf(candidate).getTime()) / (24 * 60 * 60 * 1000);
+
+    const score = (candidate.categoryId === article.categoryId ? WEIGHTS.category : 0)
+      + WEIGHTS.entities * jaccard(entities, candidateEntities)
+      + WEIGHTS.title * titleSimilarity
+      + WEIGHTS.content * contentSimilarity
+      + WEIGHTS.recency * Math.pow(0.5, daysApart / RECENCY_HALF_LIFE_DAYS);
+
+    return [{ candidate, score }];
+  });
+
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, Math.min(Math.max(limit, 1), MAX_RELATED_ARTICLES))
+    .map(({ candidate, score }) => ({
+      id: candidate.id,
+      slug: candidate.slug,
+      title: candidate.title,
+      excerpt: candidate.excerpt,
+      image: candidate.image,
+      imageSet: candidate.imageAsset ? responsiveImage(candidate.imageAsset) : null,
+      category: candidate.category.name,
+      categorySlug: candidate.category.slug,
+      author: candidate.author.name || 'Editorial Team',
+      publishedAt: dateOf(candidate),
+      readTime: `${Math.ceil(candidate.content.split(/\s+/).length / 200)} min read`,
+      score: Math.round(score * 1000) / 1000,
+    }));
+}
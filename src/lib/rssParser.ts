@@ -3,7 +3,18 @@ import { RSSFeed, RSSFeedItem, NewsArticle, FeedCategory } from '@/types/rss';
 import { RSS_FEEDS, CACHE_DURATION } from '@/config/rssFeeds';
 import { CountryCode, getFeedUrlsForCountry } from '@/config/multiTenantFeeds';
 import { prisma } from '@/lib/prisma';
-import { rephraseArticle, rephraseArticlesBatch, classifyArticleCategory } from '@/lib/geminiService';
+import { rephraseArticle, rephraseArticlesBatch, classifyArticleCategory, BlogArticleOutput } from '@/lib/geminiService';
+import { LLMCallContext, LLMOutputError } from '@/lib/llm';
+import { LlmBudgetExceededError, attachLlmCallsToArticle, getLlmBudgetStatus } from '@/lib/llmUsage';
+import { ARTICLE_STATUS, ArticleStatus, statusData } from '@/lib/articleStatus';
+import { checkFactPreservation } from '@/lib/factCheck';
+import { computeFingerprint, findStoryMatch } from '@/lib/dedup';
+import { assignStoryCluster } from '@/lib/storyClusters';
+import { FeedFetchError, recordFeedFailure, recordFeedSuccess } from '@/lib/feedHealth';
+import { HttpFetchError, LimitedResponse, fetchWithLimits } from '@/lib/httpFetch';
+import { looksLikeJsonFeed, parseJsonFeed } from '@/lib/jsonFeed';
+import { extractArticleText } from '@/lib/articleExtractor';
+import { articleImageData, localiseImage } from '@/lib/imagePipeline';
 
 interface CacheEntry {
   data: RSSFeed;
@@ -21,6 +32,8 @@ const parser = new Parser({
       ['media:thumbnail', 'media:thumbnail'],
       ['enclosure', 'enclosure'],
       ['content:encoded', 'content:encoded'],
+      // rss-parser only maps RSS categories; Atom ones are read from here
+      ['category', 'atomCategories', { keepArray: true }],
     ],
   },
 });
@@ -77,6 +90,69 @@ function extractImageUrl(item: any): string | undefined {
   return undefined;
 }
 
+/**
+ * Category names from RSS (<category domain="...">text</category>) or Atom (<category term="..."/>)
+ */
+function extractCategories(item: any): string[] {
+  const raw: Array<string | { _?: string; $?: { term?: string; label?: string } }> =
+    item.categories?.length ? item.categories : item.atomCategories || [];
+  return raw
+    .map(category => (typeof category === 'string' ? category : category?._ || category?.$?.term || category?.$?.label))
+    .filter((category): category is string => typeof category === 'string' && category.trim().length > 0)
+    .map(category => category.trim());
+}
+
+/**
+ * Map an RSS 2.0, Atom or JSON Feed item (in rss-parser's shape, see jsonFeed.ts) to RSSFeedItem
+ */
+function normaliseFeedItem(item: any): RSSFeedItem {
+  const imageUrl = extractImageUrl(item);
+
+  return {
+    title: item.title || '',
+    link: item.link || '',
+    pubDate: item.pubDate || '',
+    // Atom entries carry a summary instead of a description
+    description: item.description || item.summary || '',
+    content: item.content || '',
+    contentSnippet: item.contentSnippet || '',
+    guid: item.guid || item.id || item.link,
+    categories: extractCategories(item),
+    isoDate: item.isoDate || '',
+    enclosure: imageUrl ? { url: imageUrl } : item.enclosure,
+  };
+}
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+/**
+ * Parse a feed body in any supported format into an RSSFeed
+ * @throws Error when the body is not a feed
+ */
+export async function parseFeedBody(
+  body: string,
+  contentType?: string | null
+): Promise<{ feed: RSSFeed; format: FeedFormat }> {
+  if (looksLikeJsonFeed(body, contentType)) {
+    const feed = parseJsonFeed(body);
+    return {
+      feed: { ...feed, items: feed.items.map(normaliseFeedItem) },
+      format: 'json',
+    };
+  }
+
+  const feed = await parser.parseString(body);
+  return {
+    feed: {
+      items: feed.items.map(normaliseFeedItem),
+      title: feed.title,
+      description: feed.description,
+      link: feed.link,
+    },
+    format: /<feed[\s>]/.test(body) ? 'atom' : 'rss',
+  };
+}
+
 /**
  * Extract plain text from HTML description
  */
@@ -149,30 +225,8 @@ export async function fetchRSSFeed(category: FeedCategory): Promise<RSSFeed> {
 
   try {
     const feedUrl = RSS_FEEDS[category];
-    const feed = await parser.parseURL(feedUrl);
-
-    const rssFeed: RSSFeed = {
-      items: feed.items.map((item: any) => {
-        // Extract image URL from the item
-        const imageUrl = extractImageUrl(item);
-
-        return {
-          title: item.title || '',
-          link: item.link || '',
-          pubDate: item.pubDate || '',
-          description: item.description || '',
-          content: item.content || '',
-          contentSnippet: item.contentSnippet || '',
-          guid: item.guid || item.link,
-          categories: item.categories || [],
-          isoDate: item.isoDate || '',
-          enclosure: imageUrl ? { url: imageUrl } : item.enclosure,
-        };
-      }),
-      title: feed.title,
-      description: feed.description,
-      link: feed.link,
-    };
+    const { feed: rssFeed } = await fetchFeed(feedUrl);
+    if (!rssFeed) throw new Error('Unexpected 304 for an unconditional request');
 
     // Update cache
     cache.set(category, {
@@ -236,47 +290,156 @@ export async function fetchMultipleFeeds(categories: FeedCategory[]): Promise<Re
   }, {} as Record<FeedCategory, RSSFeed>);
 }
 
+const FEED_ACCEPT = 'application/rss+xml, application/atom+xml, application/feed+json, application/rdf+xml;q=0.8, application/xml;q=0.6, text/xml;q=0.6, application/json;q=0.4';
+
+export interface FeedValidators {
+  etag?: string | null;
+  lastModified?: string | null;
+}
+
+export interface FeedFetchResult {
+  // Null when the server answered 304 Not Modified
+  feed: RSSFeed | null;
+  format: FeedFormat | null;
+  httpStatus: number;
+  // Body size downloaded
+  bytes: number;
+  etag: string | null;
+  lastModified: string | null;
+}
+
 /**
- * Fetch RSS feed from a specific URL (for multi-tenant feeds)
+ * Download and parse an RSS, Atom or JSON Feed, telling HTTP, network and parse failures apart
+ * With validators from an earlier response the request is conditional, and an
+ * unchanged feed comes back as { feed: null, httpStatus: 304 } without being parsed
+ * @throws FeedFetchError for a failed request, a non-2xx response or a body that is not a feed
  */
-export async function fetchRSSFromUrl(url: string): Promise<RSSFeed> {
+export async function fetchFeed(url: string, validators: FeedValidators = {}): Promise<FeedFetchResult> {
+  let response: LimitedResponse;
   try {
-    const feed = await parser.parseURL(url);
-
-    const rssFeed: RSSFeed = {
-      items: feed.items.map((item: any) => {
-        const imageUrl = extractImageUrl(item);
-
-        return {
-          title: item.title || '',
-          link: item.link || '',
-          pubDate: item.pubDate || '',
-          description: item.description || '',
-          content: item.content || '',
-          contentSnippet: item.contentSnippet || '',
-          guid: item.guid || item.link,
-          categories: item.categories || [],
-          isoDate: item.isoDate || '',
-          enclosure: imageUrl ? { url: imageUrl } : item.enclosure,
-        };
-      }),
-      title: feed.title,
-      description: feed.description,
-      link: feed.link,
-    };
+    response = await fetchWithLimits(url, {
+      headers: {
+        Accept: FEED_ACCEPT,
+        ...(validators.etag ? { 'If-None-Match': validators.etag } : {}),
+        ...(validators.lastModified ? { 'If-Modified-Since': validators.lastModified } : {}),
+      },
+    });
+  } catch (error) {
+    const type = error instanceof HttpFetchError ? error.type : 'network';
+    throw new FeedFetchError(type, (error as Error).message);
+  }
 
-    return rssFeed;
+  const cacheValidators = {
+    etag: response.headers.get('etag'),
+    lastModified: response.headers.get('last-modified'),
+  };
+
+  if (response.status === 304) {
+    return { feed: null, format: null, httpStatus: 304, bytes: 0, ...cacheValidators };
+  }
+
+  if (!response.ok) {
+    throw new FeedFetchError('http', `HTTP ${response.status}`, response.status);
+  }
+
+  let parsed: { feed: RSSFeed; format: FeedFormat };
+  try {
+    parsed = await parseFeedBody(response.body.toString('utf8'), response.headers.get('content-type'));
   } catch (error) {
-    console.error(`Error fetching RSS feed from ${url}:`, error);
+    throw new FeedFetchError('parse', `Invalid feed: ${(error as Error).message}`, response.status);
+  }
+
+  return { ...parsed, httpStatus: response.status, bytes: response.body.length, ...cacheValidators };
+}
+
+export interface SourceFeedResult {
+  // Null when the feed has not changed since the last fetch
+  feed: RSSFeed | null;
+  bytes: number;
+  // Size of the last full download, not transferred thanks to a 304
+  bytesSaved: number;
+  // Validators of this download, stored with saveFeedValidators once its items are handled
+  validators: FeedValidators;
+}
+
+/**
+ * Fetch a NewsSource's feed and record the outcome in its health (see feedHealth.ts)
+ * Requests are conditional on the source's stored ETag and Last-Modified unless
+ * conditional is false. An empty feed counts as a failure.
+ * The new validators are not stored here: a later run would get a 304 and never see
+ * items that were fetched but not yet queued or stored. See saveFeedValidators.
+ * @throws FeedFetchError after recording it
+ */
+export async function fetchSourceFeed(
+  source: { id: string; url: string; etag?: string | null; lastModified?: string | null; lastFeedBytes?: number | null },
+  options: { conditional?: boolean } = {}
+): Promise<SourceFeedResult> {
+  const startTime = Date.now();
+  const conditional = options.conditional ?? true;
+
+  try {
+    const result = await fetchFeed(source.url, conditional ? source : {});
+    if (result.feed && result.feed.items.length === 0) {
+      throw new FeedFetchError('empty', 'Feed has no items', result.httpStatus);
+    }
+
+    await recordFeedSuccess(source.id, {
+      httpStatus: result.httpStatus,
+      itemCount: result.feed ? result.feed.items.length : null,
+      bytes: result.bytes,
+      durationMs: Date.now() - startTime,
+    });
+
+    if (!result.feed) {
+      return { feed: null, bytes: 0, bytesSaved: source.lastFeedBytes || 0, validators: {} };
+    }
+
     return {
-      items: [],
-      title: 'News',
-      description: '',
-      link: '',
+      feed: result.feed,
+      bytes: result.bytes,
+      bytesSaved: 0,
+      validators: { etag: result.etag, lastModified: result.lastModified },
     };
+  } catch (error) {
+    await recordFeedFailure(source.id, error as Error, Date.now() - startTime);
+    throw error;
   }
 }
 
+/**
+ * Store a download's ETag and Last-Modified, so the next fetch of the source is conditional
+ * Call only once every item of the download has been queued or stored
+ */
+export async function saveFeedValidators(sourceId: string, result: SourceFeedResult): Promise<void> {
+  if (!result.feed) return;
+
+  await prisma.newsSource.update({
+    where: { id: sourceId },
+    data: { etag: result.validators.etag, lastModified: result.validators.lastModified, lastFeedBytes: result.bytes },
+  });
+}
+
+/**
+ * Fetch RSS feed from a specific URL (for multi-tenant feeds)
+ * Failures are logged and return an empty feed
+ */
+export async function fetchRSSFromUrl(url: string): Promise<RSSFeed> {
+  try {
+    // Unconditional, so the feed is never null
+    const { feed } = await fetchFeed(url);
+    if (feed) return feed;
+  } catch (error) {
+    console.error(`Error fetching RSS feed from ${url}:`, error);
+  }
+
+  return {
+    items: [],
+    title: 'News',
+    description: '',
+    link: '',
+  };
+}
+
 /**
  * Fetch country-specific feeds for a category
  */
@@ -384,9 +547,10 @@ async function createUniqueSlug(title: string): Promise<string> {
 }
 
 /**
- * Check if an article already exists in database (deduplication)
+ * Check if this exact feed item was already stored (by RSS GUID or source URL)
+ * The same story from other sources is not a duplicate; see findStoryMatch in dedup.ts
  */
-export async function isDuplicateArticle(rssGuid: string, title: string, sourceUrl?: string): Promise<boolean> {
+export async function isDuplicateArticle(rssGuid: string, sourceUrl?: string): Promise<boolean> {
   // Check by RSS GUID (primary method)
   if (rssGuid) {
     const existingByGuid = await prisma.article.findUnique({
@@ -407,30 +571,172 @@ export async function isDuplicateArticle(rssGuid: string, title: string, sourceU
     }
   }
 
-  // Check by title similarity (tertiary method - check last 7 days)
-  const sevenDaysAgo = new Date();
-  sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
+  return false;
+}
 
-  const recentArticles = await prisma.article.findMany({
-    where: {
-      createdAt: { gte: sevenDaysAgo },
-    },
-    select: { title: true },
-  });
+export interface FeedItemContext {
+  sourceId: string;
+  sourceName: string;
+  authorId: string;
+  country?: string;
+  // Category of the source, used when AI classification finds no match
+  fallbackCategory: { id: string; slug: string };
+  // false holds the rewrite in the admin review queue instead of publishing it
+  autoPublish?: boolean;
+  // Queue job processing the item, recorded with its LLM calls
+  jobId?: string;
+  // Fetch the item's page and work from the full article text instead of the feed description
+  extractFullText?: boolean;
+}
 
-  // Simple similarity check: if 90%+ of words match, consider it duplicate
-  const titleWords = title.toLowerCase().split(/\s+/);
-  for (const article of recentArticles) {
-    const existingWords = article.title.toLowerCase().split(/\s+/);
-    const commonWords = titleWords.filter(word => existingWords.includes(word));
-    const similarity = commonWords.length / Math.max(titleWords.length, existingWords.length);
+/**
+ * Classify, rephrase and store a single feed item
+ * Returns 'skipped' for items that are too short or already stored
+ */
+export async function processFeedItem(
+  item: RSSFeedItem,
+  context: FeedItemContext
+): Promise<'stored' | 'skipped'> {
+  const rssGuid = item.guid || item.link;
+  const plainText = extractPlainText(item.description || item.contentSnippet || item.content || '');
+
+  // Skip if article is too short (unless the full text is fetched from the page)
+  if (plainText.length < 100 && !context.extractFullText) {
+    return 'skipped';
+  }
 
-    if (similarity > 0.9) {
-      return true;
-    }
+  // Check for duplicates
+  const isDuplicate = await isDuplicateArticle(rssGuid, item.link);
+  if (isDuplicate) {
+    return 'skipped';
   }
 
-  return false;
+  // Full article text when the source asks for it, falling back to the feed description
+  const extracted = context.extractFullText && item.link ? await extractArticleText(item.link) : null;
+  const sourceText = extracted && extracted.text.length > plainText.length ? extracted.text : plainText;
+  if (sourceText.length < 100) {
+    return 'skipped';
+  }
+
+  // Near-duplicates from other sources are kept and grouped into the same story cluster;
+  // fingerprints use the feed text so they compare across sources with and without extraction
+  const fingerprint = computeFingerprint(item.title, plainText);
+  const storyMatch = fingerprint ? await findStoryMatch(fingerprint) : null;
+
+  // Stop once the day's LLM budget is spent; as it runs low, skip classification and retries
+  const budget = await getLlmBudgetStatus(context.country);
+  if (budget.state === 'exhausted') {
+    throw new LlmBudgetExceededError(budget);
+  }
+  const degraded = budget.state === 'degraded';
+  const llmContext: LLMCallContext = {
+    sourceId: context.sourceId,
+    country: context.country,
+    jobId: context.jobId,
+    itemKey: rssGuid,
+  };
+
+  // Classify article into correct category using AI
+  const classifiedCategorySlug = degraded
+    ? null
+    : await classifyArticleCategory(
+      { title: item.title, content: sourceText, description: plainText },
+      { ...llmContext, categorySlug: context.fallbackCategory.slug }
+    );
+
+  // Get the AI-classified category from database
+  const classifiedCategory = classifiedCategorySlug
+    ? await prisma.category.findUnique({ where: { slug: classifiedCategorySlug } })
+    : null;
+
+  // Use classified category if found, otherwise fallback to source category
+  const finalCategory = classifiedCategory || context.fallbackCategory;
+
+  console.log(`Article "${item.title.substring(0, 50)}..." classified as: ${finalCategory.slug}`);
+
+  // Rephrase with AI
+  let rephrased: BlogArticleOutput | null = null;
+  let aiError: string | null = null;
+  try {
+    rephrased = await rephraseArticle(
+      {
+        title: item.title,
+        content: sourceText,
+        description: plainText,
+        category: finalCategory.slug,
+      },
+      degraded ? 1 : 3,
+      { ...llmContext, categorySlug: finalCategory.slug }
+    );
+  } catch (error) {
+    // Provider failures propagate so the job is retried; unusable output is stored unpublished for an editor
+    if (!(error instanceof LLMOutputError)) throw error;
+    aiError = error.message;
+  }
+
+  // Rewrites that drop or invent facts are held for an editor even on auto-publish sources
+  const factCheck = rephrased
+    ? checkFactPreservation({ title: item.title, content: sourceText }, rephrased)
+    : null;
+  if (factCheck && !factCheck.passed) {
+    console.warn(`Fact check failed for "${item.title.substring(0, 50)}...", holding for review`);
+  }
+
+  let status: ArticleStatus = ARTICLE_STATUS.PUBLISHED;
+  if (!rephrased) {
+    status = ARTICLE_STATUS.INGESTED;
+  } else if (context.autoPublish === false || !factCheck?.passed) {
+    status = ARTICLE_STATUS.IN_REVIEW;
+  }
+
+  // Without a rewrite the original feed text is kept as is and marked as not rephrased
+  const draft = rephrased || {
+    title: item.title,
+    content: sourceText,
+    excerpt: plainText.length > 200 ? `${plainText.substring(0, 200)}...` : plainText,
+    promptTemplateId: null,
+  };
+
+  // Create unique slug
+  const slug = await createUniqueSlug(draft.title);
+
+  // Images are stored locally; one that fails validation is dropped rather than hotlinked
+  const imageAsset = await localiseImage(extractImageUrl(item));
+
+  // Store in database
+  const article = await prisma.article.create({
+    data: {
+      title: draft.title,
+      slug,
+      content: draft.content,
+      excerpt: draft.excerpt,
+      ...articleImageData(imageAsset),
+      ...statusData(status),
+      featured: false,
+      categoryId: finalCategory.id,
+      authorId: context.authorId,
+      sourceUrl: item.link,
+      sourceId: context.sourceId,
+      sourceName: context.sourceName,
+      country: context.country,
+      rssGuid,
+      aiRephrased: !!rephrased,
+      aiError,
+      rawContent: sourceText,
+      promptTemplateId: draft.promptTemplateId,
+      factCheck: factCheck ? JSON.stringify(factCheck) : null,
+      factCheckPassed: factCheck?.passed,
+      publishedAt: item.isoDate ? new Date(item.isoDate) : new Date(),
+      fingerprint: fingerprint?.signature,
+      fingerprintBands: fingerprint?.bands,
+      similarity: storyMatch?.similarity,
+    },
+  });
+
+  await assignStoryCluster(article, storyMatch);
+  await attachLlmCallsToArticle(rssGuid, article.id);
+
+  return 'stored';
 }
 
 /**
@@ -442,19 +748,27 @@ export async function fetchAndStoreArticles(
   sourceName: string,
   categorySlug: string,
   authorId: string,
-  limit: number = 10
-): Promise<{ stored: number; skipped: number; errors: string[] }> {
+  limit: number = 10,
+  country?: string
+): Promise<{ stored: number; skipped: number; errors: string[]; notModified: boolean; bytesSaved: number }> {
   const errors: string[] = [];
   let stored = 0;
   let skipped = 0;
 
   try {
-    // Fetch RSS feed
-    const feed = await fetchRSSFromUrl(sourceUrl);
+    // Per-source publishing mode and the validators of the last download
+    const source = await prisma.newsSource.findUnique({
+      where: { id: sourceId },
+      select: { autoPublish: true, extractFullText: true, etag: true, lastModified: true, lastFeedBytes: true },
+    });
+
+    // Fetch RSS feed, recording the source's health; empty feeds throw
+    const fetched = await fetchSourceFeed({ ...source, id: sourceId, url: sourceUrl });
+    const { feed, bytesSaved } = fetched;
 
-    if (feed.items.length === 0) {
-      errors.push(`No items found in feed: ${sourceUrl}`);
-      return { stored, skipped, errors };
+    // Unchanged since the last run (HTTP 304)
+    if (!feed) {
+      return { stored, skipped, errors, notModified: true, bytesSaved };
     }
 
     // Get category from database
@@ -464,91 +778,51 @@ export async function fetchAndStoreArticles(
 
     if (!category) {
       errors.push(`Category not found: ${categorySlug}`);
-      return { stored, skipped, errors };
+      return { stored, skipped, errors, notModified: false, bytesSaved };
     }
 
     // Take only the specified limit of most recent articles
     const itemsToProcess = feed.items.slice(0, limit);
+    let stoppedEarly = false;
 
     // Process each item
     for (const item of itemsToProcess) {
       try {
-        const rssGuid = item.guid || item.link;
-        const plainText = extractPlainText(item.description || item.contentSnippet || item.content || '');
-
-        // Skip if article is too short
-        if (plainText.length < 100) {
-          skipped++;
-          continue;
-        }
+        const outcome = await processFeedItem(item, {
+          sourceId,
+          sourceName,
+          authorId,
+          country,
+          fallbackCategory: category,
+          autoPublish: source?.autoPublish ?? true,
+          extractFullText: source?.extractFullText ?? false,
+        });
 
-        // Check for duplicates
-        const isDuplicate = await isDuplicateArticle(rssGuid, item.title, item.link);
-        if (isDuplicate) {
+        if (outcome === 'stored') {
+          stored++;
+        } else {
           skipped++;
-          continue;
         }
-
-        // Classify article into correct category using AI
-        const classifiedCategorySlug = await classifyArticleCategory({
-          title: item.title,
-          content: plainText,
-          description: plainText,
-        });
-
-        // Get the AI-classified category from database
-        const classifiedCategory = await prisma.category.findUnique({
-          where: { slug: classifiedCategorySlug },
-        });
-
-        // Use classified category if found, otherwise fallback to source category
-        const finalCategory = classifiedCategory || category;
-
-        console.log(`Article "${item.title.substring(0, 50)}..." classified as: ${finalCategory.slug}`);
-
-        // Rephrase with AI
-        const rephrased = await rephraseArticle({
-          title: item.title,
-          content: plainText,
-          description: plainText,
-          category: finalCategory.slug,
-        });
-
-        // Create unique slug
-        const slug = await createUniqueSlug(rephrased.title);
-
-        // Store in database
-        await prisma.article.create({
-          data: {
-            title: rephrased.title,
-            slug,
-            content: rephrased.content,
-            excerpt: rephrased.excerpt,
-            image: extractImageUrl(item),
-            published: true,
-            featured: false,
-            categoryId: finalCategory.id,
-            authorId,
-            sourceUrl: item.link,
-            sourceId,
-            sourceName,
-            rssGuid,
-            aiRephrased: true,
-            rawContent: plainText,
-            publishedAt: item.isoDate ? new Date(item.isoDate) : new Date(),
-          },
-        });
-
-        stored++;
       } catch (error: any) {
+        // The rest of the feed would hit the same budget
+        if (error instanceof LlmBudgetExceededError) {
+          errors.push(error.message);
+          stoppedEarly = true;
+          break;
+        }
         errors.push(`Error processing article "${item.title}": ${error.message}`);
       }
     }
 
-    return { stored, skipped, errors };
+    // Items left unprocessed must still be in the next download rather than a 304
+    if (!stoppedEarly) {
+      await saveFeedValidators(sourceId, fetched);
+    }
+
+    return { stored, skipped, errors, notModified: false, bytesSaved };
   } catch (error: any) {
     errors.push(`Error fetching feed ${sourceUrl}: ${error.message}`);
-    return { stored, skipped, errors };
+    return { stored, skipped, errors, notModified: false, bytesSaved: 0 };
   }
 }
 
@@ -561,6 +835,7 @@ export async function fetchAndStoreMultipleSources(
     id: string;
     name: string;
     category: string;
+    country?: string;
   }>,
   authorId: string,
   articlesPerSource: number = 10
@@ -569,9 +844,13 @@ export async function fetchAndStoreMultipleSources(
   totalSkipped: number;
   allErrors: string[];
   sourceResults: Array<{ source: string; stored: number; skipped: number }>;
+  notModified: number;
+  bytesSaved: number;
 }> {
   let totalStored = 0;
   let totalSkipped = 0;
+  let notModified = 0;
+  let bytesSaved = 0;
   const allErrors: string[] = [];
   const sourceResults: Array<{ source: string; stored: number; skipped: number }> = [];
 
@@ -584,12 +863,15 @@ export async function fetchAndStoreMultipleSources(
       source.name,
       source.category,
       authorId,
-      articlesPerSource
+      articlesPerSource,
+      source.country
     );
 
     totalStored += result.stored;
     totalSkipped += result.skipped;
     allErrors.push(...result.errors);
+    if (result.notModified) notModified++;
+    bytesSaved += result.bytesSaved;
 
     sourceResults.push({
       source: source.name,
@@ -603,5 +885,7 @@ export async function fetchAndStoreMultipleSources(
     totalSkipped,
     allErrors,
     sourceResults,
+    notModified,
+    bytesSaved,
   };
 }
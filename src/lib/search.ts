@@ -0,0 +1,219 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { responsiveImage } from '@/lib/imagePipeline';
+import type { ResponsiveImage } from '@/types/image';
+
+// Markers passed to ts_headline; swapped for <mark> once the text is escaped
+const HIGHLIGHT_START = '⟦';
+const HIGHLIGHT_STOP = '⟧';
+
+const SNIPPET_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MaxFragments=2, MinWords=12, MaxWords=30, FragmentDelimiter=" … "`;
+const TITLE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, HighlightAll=true`;
+
+export const MAX_SEARCH_LIMIT = 50;
+
+export interface ArticleSearchParams {
+  query: string;
+  category?: string | null; // Category slug
+  country?: string | null;  // NewsSource country code, e.g. "INDIA"
+  from?: Date | null;
+  to?: Date | null;
+  page?: number;
+  limit?: number;
+}
+
+export interface ArticleSearchResult {
+  id: string;
+  title: string;
+  titleHighlight: string; // HTML-escaped, matches wrapped in <mark>
+  slug: string;
+  link: string;
+  excerpt: string | null;
+  snippet: string;        // HTML-escaped, matches wrapped in <mark>
+  image: string | null;
+  imageSet: ResponsiveImage | null;
+  category: string;
+  categorySlug: string;
+  author: string;
+  sourceName: string | null;
+  country: string | null;
+  pubDate: string;
+  publishedAt: Date;
+  readTime: string;
+  rank: number;
+}
+
+export interface ArticleSearchResponse {
+  results: ArticleSearchResult[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+    hasMore: boolean;
+  };
+}
+
+interface SearchRow {
+  id: string;
+  title: string;
+  slug: string;
+  excerpt: string | null;
+  image: string | null;
+  storageKey: string | null;
+  variantWidths: number[] | null;
+  imageWidth: number | null;
+  imageHeight: number | null;
+  blurDataUrl: string | null;
+  sourceName: string | null;
+  country: string | null;
+  publishedAt: Date;
+  categoryName: string;
+  categorySlug: string;
+  authorName: string | null;
+  rank: number;
+  wordCount: number | null;
+  snippet: string;
+  titleHighlight: string;
+}
+
+/**
+ * Parse a from/to filter value, ignoring anything invalid
+ * A yyyy-mm-dd `to` date covers that whole day, so the day itself is included
+ */
+export function parseSearchDate(value: string | null | undefined, endOfDay: boolean = false): Date | null {
+  if (!value) return null;
+  const date = new Date(endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T23:59:59.999Z` : value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Escape HTML and turn ts_headline markers into <mark> tags
+ */
+function renderHighlight(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(new RegExp(HIGHLIGHT_START, 'g'), '<mark>')
+    .replace(new RegExp(HIGHLIGHT_STOP, 'g'), '</mark>');
+}
+
+/**
+ * Build the shared WHERE clause for search and count queries
+ */
+function buildFilters(params: ArticleSearchParams): Prisma.Sql {
+  const filters: Prisma.Sql[] = [
+    Prisma.sql`a."published" = true`,
+    Prisma.sql`a."searchVector" @@ websearch_to_tsquery('english', ${params.query})`,
+  ];
+
+  if (params.category) {
+    filters.push(Prisma.sql`c."slug" = ${params.category}`);
+  }
+  if (params.country) {
+    filters.push(Prisma.sql`a."country" = ${params.country}`);
+  }
+  if (params.from) {
+    filters.push(Prisma.sql`coalesce(a."publishedAt", a."createdAt") >= ${params.from}`);
+  }
+  if (params.to) {
+    filters.push(Prisma.sql`coalesce(a."publishedAt", a."createdAt") <= ${params.to}`);
+  }
+
+  return Prisma.join(filters, ' AND ');
+}
+
+/**
+ * Full-text search over published articles, ranked by relevance
+ * Relies on the searchVector trigger from prisma/sql/article_search.sql
+ */
+export async function searchArticles(params: ArticleSearchParams): Promise<ArticleSearchResponse> {
+  const limit = Math.min(Math.max(params.limit || 20, 1), MAX_SEARCH_LIMIT);
+  const page = Math.max(params.page || 1, 1);
+  const offset = (page - 1) * limit;
+  const where = buildFilters(params);
+
+  const countRows = await prisma.$queryRaw<Array<{ total: bigint }>>`
+    SELECT count(*) AS total
+    FROM "Article" a
+    JOIN "Category" c ON c."id" = a."categoryId"
+    WHERE ${where}
+  `;
+  const total = Number(countRows[0]?.total || 0);
+
+  // Rank and paginate first so ts_headline only runs on the returned page
+  const rows = total === 0 ? [] : await prisma.$queryRaw<SearchRow[]>`
+    WITH ranked AS (
+      SELECT a."id",
+             ts_rank_cd(a."searchVector", websearch_to_tsquery('english', ${params.query})) AS rank
+      FROM "Article" a
+      JOIN "Category" c ON c."id" = a."categoryId"
+      WHERE ${where}
+      ORDER BY rank DESC, coalesce(a."publishedAt", a."createdAt") DESC
+      LIMIT ${limit} OFFSET ${offset}
+    )
+    SELECT a."id", a."title", a."slug", a."excerpt", a."image", a."sourceName", a."country",
+           i."storageKey", i."variantWidths", i."width" AS "imageWidth", i."height" AS "imageHeight", i."blurDataUrl",
+           coalesce(a."publishedAt", a."createdAt") AS "publishedAt",
+           c."name" AS "categoryName", c."slug" AS "categorySlug",
+           u."name" AS "authorName",
+           ranked.rank::float8 AS rank,
+           array_length(regexp_split_to_array(a."content", '\\s+'), 1) AS "wordCount",
+           ts_headline('english', coalesce(a."excerpt", '') || ' ' || a."content",
+                       websearch_to_tsquery('english', ${params.query}), ${SNIPPET_OPTIONS}) AS snippet,
+           ts_headline('english', a."title",
+                       websearch_to_tsquery('english', ${params.query}), ${TITLE_OPTIONS}) AS "titleHighlight"
+    FROM ranked
+    JOIN "Article" a ON a."id" = ranked."id"
+    JOIN "Category" c ON c."id" = a."categoryId"
+    JOIN "User" u ON u."id" = a."authorId"
+    LEFT JOIN "ImageAsset" i ON i."id" = a."imageAssetId"
+    ORDER BY ranked.rank DESC, coalesce(a."publishedAt", a."createdAt") DESC
+  `;
+
+  const results = rows.map((row) => ({
+    id: row.id,
+    title: row.title,
+    titleHighlight: renderHighlight(row.titleHighlight),
+    slug: row.slug,
+    link: `/article/${row.slug}`,
+    excerpt: row.excerpt,
+    snippet: renderHighlight(row.snippet),
+    image: row.image,
+    imageSet: row.storageKey && row.variantWidths?.length
+      ? responsiveImage({
+        storageKey: row.storageKey,
+        variantWidths: row.variantWidths,
+        width: row.imageWidth || 0,
+        height: row.imageHeight || 0,
+        blurDataUrl: row.blurDataUrl || '',
+      })
+      : null,
+    category: row.categoryName,
+    categorySlug: row.categorySlug,
+    author: row.authorName || 'Editorial Team',
+    sourceName: row.sourceName,
+    country: row.country,
+    pubDate: row.publishedAt.toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    }),
+    publishedAt: row.publishedAt,
+    readTime: `${Math.ceil((row.wordCount || 0) / 200)} Min`,
+    rank: row.rank,
+  }));
+
+  return {
+    results,
+    pagination: {
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+      hasMore: offset + limit < total,
+    },
+  };
+}
@@ -0,0 +1,189 @@
+import type { Metadata } from 'next';
+import { SITE_NAME, absoluteUrl, resolveSiteUrl } from '@/lib/site';
+import type { ResponsiveImage } from '@/types/image';
+
+/**
+ * Page metadata and schema.org JSON-LD
+ *
+ * Titles, descriptions, canonical URLs, OpenGraph and Twitter cards are built here
+ * so article, category and home pages describe themselves the same way. Relative
+ * URLs are resolved against SITE_URL through metadataBase in the root layout.
+ */
+
+export const SITE_DESCRIPTION = 'Your premium daily source for the latest blog posts and analysis';
+
+// Search engines cut descriptions around this length
+const DESCRIPTION_MAX_LENGTH = 160;
+// Google's limit for NewsArticle headlines
+const HEADLINE_MAX_LENGTH = 110;
+
+export interface ArticleSeo {
+  slug: string;
+  title: string;
+  excerpt: string | null;
+  content: string;
+  image: ResponsiveImage | null;
+  publishedAt: Date;
+  updatedAt: Date;
+  authorName: string | null;
+  categoryName: string;
+  sourceName: string | null;
+  sourceUrl: string | null;
+}
+
+/**
+ * Feed autodiscovery links, for all articles or one category
+ * Next.js replaces alternates as a whole, so every page that sets a canonical URL repeats these
+ */
+export function feedAlternateTypes(categorySlug?: string) {
+  const query = categorySlug ? `?category=${categorySlug}` : '';
+  return {
+    'application/rss+xml': `/feed.xml${query}`,
+    'application/atom+xml': `/feed.atom${query}`,
+    'application/feed+json': `/feed.json${query}`,
+  };
+}
+
+function truncate(text: string, maxLength: number): string {
+  const normalised = text.replace(/\s+/g, ' ').trim();
+  if (normalised.length <= maxLength) return normalised;
+  return `${normalised.substring(0, maxLength - 1).replace(/\s+\S*$/, '')}…`;
+}
+
+function articleDescription(article: ArticleSeo): string {
+  return truncate(article.excerpt || article.content, DESCRIPTION_MAX_LENGTH);
+}
+
+export function articleMetadata(article: ArticleSeo): Metadata {
+  const path = `/article/${article.slug}`;
+  const description = articleDescription(article);
+  const images = article.image ? [{ url: article.image.src, alt: article.title }] : undefined;
+
+  return {
+    title: article.title,
+    description,
+    alternates: { canonical: path, types: feedAlternateTypes() },
+    openGraph: {
+      type: 'article',
+      url: path,
+      siteName: SITE_NAME,
+      title: article.title,
+      description,
+      images,
+      publishedTime: article.publishedAt.toISOString(),
+      modifiedTime: article.updatedAt.toISOString(),
+      section: article.categoryName,
+      authors: article.authorName ? [article.authorName] : undefined,
+    },
+    twitter: {
+      card: images ? 'summary_large_image' : 'summary',
+      title: article.title,
+      description,
+      images: images?.map(image => image.url),
+    },
+  };
+}
+
+export function categoryMetadata(category: { name: string; slug: string }): Metadata {
+  const path = `/category/${category.slug}`;
+  const description = `The latest ${category.name} stories from ${SITE_NAME}`;
+
+  return {
+    title: category.name,
+    description,
+    alternates: { canonical: path, types: feedAlternateTypes(category.slug) },
+    openGraph: {
+      type: 'website',
+      url: path,
+      siteName: SITE_NAME,
+      title: `${category.name} | ${SITE_NAME}`,
+      description,
+    },
+    twitter: {
+      card: 'summary',
+      title: `${category.name} | ${SITE_NAME}`,
+      description,
+    },
+  };
+}
+
+export const homeMetadata: Metadata = {
+  title: { absolute: SITE_NAME },
+  description: SITE_DESCRIPTION,
+  alternates: { canonical: '/', types: feedAlternateTypes() },
+  openGraph: {
+    type: 'website',
+    url: '/',
+    siteName: SITE_NAME,
+    title: SITE_NAME,
+    description: SITE_DESCRIPTION,
+  },
+  twitter: {
+    card: 'summary',
+    title: SITE_NAME,
+    description: SITE_DESCRIPTION,
+  },
+};
+
+const PUBLISHER = {
+  '@type': 'Organization',
+  name: SITE_NAME,
+  url: absoluteUrl('/'),
+  logo: { '@type': 'ImageObject', url: absoluteUrl('/favicon.ico') },
+};
+
+/**
+ * schema.org NewsArticle, see https://developers.google.com/search/docs/appearance/structured-data/article
+ */
+export function newsArticleJsonLd(article: ArticleSeo) {
+  const url = absoluteUrl(`/article/${article.slug}`);
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'NewsArticle',
+    headline: truncate(article.title, HEADLINE_MAX_LENGTH),
+    description: articleDescription(article),
+    url,
+    mainEntityOfPage: { '@type': 'WebPage', '@id': url },
+    image: article.image ? [resolveSiteUrl(article.image.src)] : undefined,
+    datePublished: article.publishedAt.toISOString(),
+    dateModified: article.updatedAt.toISOString(),
+    articleSection: article.categoryName,
+    author: article.authorName
+      ? { '@type': 'Person', name: article.authorName }
+      : { '@type': 'Organization', name: SITE_NAME, url: absoluteUrl('/') },
+    publisher: PUBLISHER,
+    isBasedOn: article.sourceUrl || undefined,
+    sourceOrganization: article.sourceName ? { '@type': 'Organization', name: article.sourceName } : undefined,
+  };
+}
+
+export function categoryJsonLd(category: { name: string; slug: string }) {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'CollectionPage',
+    name: `${category.name} | ${SITE_NAME}`,
+    url: absoluteUrl(`/category/${category.slug}`),
+    isPartOf: { '@type': 'WebSite', name: SITE_NAME, url: absoluteUrl('/') },
+    publisher: PUBLISHER,
+  };
+}
+
+/**
+ * schema.org WebSite with a sitelinks search box pointing at /search
+ */
+export function websiteJsonLd() {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'WebSite',
+    name: SITE_NAME,
+    description: SITE_DESCRIPTION,
+    url: absoluteUrl('/'),
+    publisher: PUBLISHER,
+    potentialAction: {
+      '@type': 'SearchAction',
+      target: { '@type': 'EntryPoint', urlTemplate: `${absoluteUrl('/search')}?q={search_term_string}` },
+      'query-input': 'required name=search_term_string',
+    },
+  };
+}
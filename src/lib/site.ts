@@ -0,0 +1,18 @@
+export const SITE_NAME = 'True Line News';
+
+// Public base URL, used wherever links leave the site (emails, feeds)
+export const SITE_URL = (process.env.SITE_URL || 'http://localhost:3000').replace(/\/+$/, '');
+
+/**
+ * Turn a site path into an absolute URL
+ */
+export function absoluteUrl(path: string): string {
+  return `${SITE_URL}${path.startsWith('/') ? path : `/${path}`}`;
+}
+
+/**
+ * Absolute URLs (e.g. images on a CDN origin) as they are, site paths through absoluteUrl
+ */
+export function resolveSiteUrl(url: string): string {
+  return /^(?:[a-z][a-z\d+.-]*:)?\/\//i.test(url) ? url : absoluteUrl(url);
+}
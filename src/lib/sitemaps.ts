@@ -0,0 +1,183 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { RESPONSIVE_IMAGE_SELECT, responsiveImage } from '@/lib/imagePipeline';
+import { SITE_NAME, absoluteUrl, resolveSiteUrl } from '@/lib/site';
+import { escapeXml } from '@/lib/xml';
+
+/**
+ * XML sitemaps for search engines
+ *
+ * /sitemap.xml is an index of the static-page, category and news sitemaps plus one
+ * article sitemap per ARTICLES_PER_SITEMAP published articles, so every article is
+ * discoverable however many there are. /sitemaps/news.xml follows the Google News
+ * format and only lists the last 48 hours.
+ */
+
+// The protocol allows 50,000; smaller pages keep each response quick to build
+export const ARTICLES_PER_SITEMAP = 10000;
+const NEWS_WINDOW_MS = 48 * 60 * 60 * 1000;
+// Google News reads at most 1,000 URLs per news sitemap
+const NEWS_MAX_URLS = 1000;
+
+const STATIC_PAGES = ['/', '/about', '/privacy', '/terms'];
+
+interface SitemapUrl {
+  loc: string;
+  lastmod?: Date;
+  changefreq?: 'hourly' | 'daily' | 'weekly' | 'monthly';
+  priority?: number;
+  image?: string;
+}
+
+/**
+ * XML response cached by browsers and CDNs for maxAge seconds
+ */
+export function sitemapResponse(xml: string, maxAge: number = 3600): NextResponse {
+  return new NextResponse(xml, {
+    headers: {
+      'Content-Type': 'application/xml; charset=utf-8',
+      'Cache-Control': `public, max-age=${maxAge}, s-maxage=${maxAge}, stale-while-revalidate=${maxAge}`,
+    },
+  });
+}
+
+function urlset(urls: SitemapUrl[]): string {
+  const entries = urls.map(url => [
+    '  <url>',
+    `    <loc>${escapeXml(url.loc)}</loc>`,
+    ...(url.lastmod ? [`    <lastmod>${url.lastmod.toISOString()}</lastmod>`] : []),
+    ...(url.changefreq ? [`    <changefreq>${url.changefreq}</changefreq>`] : []),
+    ...(url.priority !== undefined ? [`    <priority>${url.priority.toFixed(1)}</priority>`] : []),
+    ...(url.image ? [`    <image:image><image:loc>${escapeXml(url.image)}</image:loc></image:image>`] : []),
+    '  </url>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">',
+    ...entries,
+    '</urlset>',
+    '',
+  ].join('\n');
+}
+
+async function latestArticleUpdate(where: { published: true; categoryId?: string } = { published: true }): Promise<Date | undefined> {
+  const latest = await prisma.article.findFirst({
+    where,
+    orderBy: { updatedAt: 'desc' },
+    select: { updatedAt: true },
+  });
+  return latest?.updatedAt;
+}
+
+export async function countArticleSitemaps(): Promise<number> {
+  const total = await prisma.article.count({ where: { published: true } });
+  return Math.max(Math.ceil(total / ARTICLES_PER_SITEMAP), 1);
+}
+
+export async function buildSitemapIndex(): Promise<string> {
+  const [pages, lastUpdate] = await Promise.all([countArticleSitemaps(), latestArticleUpdate()]);
+  const lastmod = lastUpdate ? `\n    <lastmod>${lastUpdate.toISOString()}</lastmod>` : '';
+
+  const sitemaps = [
+    '/sitemaps/static.xml',
+    '/sitemaps/categories.xml',
+    '/sitemaps/news.xml',
+    ...Array.from({ length: pages }, (_, i) => `/sitemaps/articles/${i + 1}.xml`),
+  ];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...sitemaps.map(path => `  <sitemap>\n    <loc>${escapeXml(absoluteUrl(path))}</loc>${path === '/sitemaps/static.xml' ? '' : lastmod}\n  </sitemap>`),
+    '</sitemapindex>',
+    '',
+  ].join('\n');
+}
+
+export async function buildStaticSitemap(): Promise<string> {
+  const lastUpdate = await latestArticleUpdate();
+  return urlset(STATIC_PAGES.map(path => (path === '/'
+    ? { loc: absoluteUrl(path), lastmod: lastUpdate, changefreq: 'hourly', priority: 1 }
+    : { loc: absoluteUrl(path), changefreq: 'monthly', priority: 0.3 })));
+}
+
+export async function buildCategorySitemap(): Promise<string> {
+  const [categories, latest] = await Promise.all([
+    prisma.category.findMany({ orderBy: { name: 'asc' }, select: { id: true, slug: true } }),
+    prisma.article.groupBy({
+      by: ['categoryId'],
+      where: { published: true },
+      _max: { updatedAt: true },
+    }),
+  ]);
+  const lastmods = new Map(latest.map(row => [row.categoryId, row._max.updatedAt]));
+
+  return urlset(categories.map(category => ({
+    loc: absoluteUrl(`/category/${category.slug}`),
+    lastmod: lastmods.get(category.id) || undefined,
+    changefreq: 'hourly',
+    priority: 0.8,
+  })));
+}
+
+/**
+ * One page of article URLs, oldest first so existing pages rarely change
+ * Returns null for a page past the end
+ */
+export async function buildArticleSitemap(page: number): Promise<string | null> {
+  if (!Number.isInteger(page) || page < 1 || page > await countArticleSitemaps()) return null;
+
+  const articles = await prisma.article.findMany({
+    where: { published: true },
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    skip: (page - 1) * ARTICLES_PER_SITEMAP,
+    take: ARTICLES_PER_SITEMAP,
+    select: { slug: true, updatedAt: true, imageAsset: { select: RESPONSIVE_IMAGE_SELECT } },
+  });
+
+  return urlset(articles.map(article => ({
+    loc: absoluteUrl(`/article/${article.slug}`),
+    lastmod: article.updatedAt,
+    image: article.imageAsset ? resolveSiteUrl(responsiveImage(article.imageAsset).src) : undefined,
+  })));
+}
+
+/**
+ * Google News sitemap of articles published in the last 48 hours
+ * See https://developers.google.com/search/docs/crawling-indexing/sitemaps/news-sitemap
+ */
+export async function buildNewsSitemap(): Promise<string> {
+  const since = new Date(Date.now() - NEWS_WINDOW_MS);
+  const articles = await prisma.article.findMany({
+    where: {
+      published: true,
+      OR: [{ publishedAt: { gte: since } }, { publishedAt: null, createdAt: { gte: since } }],
+    },
+    orderBy: [{ publishedAt: { sort: 'desc', nulls: 'last' } }, { createdAt: 'desc' }],
+    take: NEWS_MAX_URLS,
+    select: { slug: true, title: true, publishedAt: true, createdAt: true },
+  });
+
+  const entries = articles.map(article => [
+    '  <url>',
+    `    <loc>${escapeXml(absoluteUrl(`/article/${article.slug}`))}</loc>`,
+    '    <news:news>',
+    '      <news:publication>',
+    `        <news:name>${escapeXml(SITE_NAME)}</news:name>`,
+    '        <news:language>en</news:language>',
+    '      </news:publication>',
+    `      <news:publication_date>${(article.publishedAt || article.createdAt).toISOString()}</news:publication_date>`,
+    `      <news:title>${escapeXml(article.title)}</news:title>`,
+    '    </news:news>',
+    '  </url>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:news="http://www.google.com/schemas/sitemap-news/0.9">',
+    ...entries,
+    '</urlset>',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,57 @@
+import { prisma } from '@/lib/prisma';
+import { StoryMatch } from '@/lib/dedup';
+
+/**
+ * Pipeline step: put a newly stored article into a story cluster
+ * Joins the cluster of the closest matching article, or starts a new one.
+ * A match from before clusters existed gets a cluster together with the new article.
+ */
+export async function assignStoryCluster(
+  article: { id: string; title: string; publishedAt: Date | null },
+  match: StoryMatch | null
+): Promise<string> {
+  const seenAt = article.publishedAt || new Date();
+
+  if (match?.storyClusterId) {
+    await prisma.$transaction([
+      prisma.article.update({
+        where: { id: article.id },
+        data: { storyClusterId: match.storyClusterId },
+      }),
+      // Articles from a backlog can be older than the cluster's newest, so only widen its span
+      prisma.storyCluster.updateMany({
+        where: { id: match.storyClusterId, lastSeenAt: { lt: seenAt } },
+        data: { lastSeenAt: seenAt },
+      }),
+      prisma.storyCluster.updateMany({
+        where: { id: match.storyClusterId, firstSeenAt: { gt: seenAt } },
+        data: { firstSeenAt: seenAt },
+      }),
+    ]);
+    return match.storyClusterId;
+  }
+
+  const matched = match
+    ? await prisma.article.findUnique({
+      where: { id: match.articleId },
+      select: { id: true, title: true, publishedAt: true, createdAt: true },
+    })
+    : null;
+  const first = matched || article;
+  const firstSeenAt = matched ? matched.publishedAt || matched.createdAt : seenAt;
+
+  const cluster = await prisma.storyCluster.create({
+    data: {
+      title: first.title,
+      firstSeenAt: firstSeenAt < seenAt ? firstSeenAt : seenAt,
+      lastSeenAt: firstSeenAt > seenAt ? firstSeenAt : seenAt,
+    },
+  });
+
+  await prisma.article.updateMany({
+    where: { id: { in: matched ? [article.id, matched.id] : [article.id] } },
+    data: { storyClusterId: cluster.id },
+  });
+
+  return cluster.id;
+}
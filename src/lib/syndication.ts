@@ -0,0 +1,316 @@
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { RESPONSIVE_IMAGE_SELECT, responsiveImage } from '@/lib/imagePipeline';
+import { MULTI_TENANT_FEEDS, CountryCode } from '@/config/multiTenantFeeds';
+import { SITE_NAME, SITE_URL, absoluteUrl, resolveSiteUrl } from '@/lib/site';
+import { escapeXml } from '@/lib/xml';
+
+/**
+ * Outbound RSS 2.0, Atom 1.0 and JSON Feed 1.1 of our published articles
+ *
+ * /feed.xml, /feed.atom and /feed.json share one query; ?category=<slug> and
+ * ?country=<code> narrow them the same way the category pages do. Responses carry
+ * an ETag and Last-Modified from the newest article so readers can poll cheaply.
+ */
+
+export type SyndicationFormat = 'rss' | 'atom' | 'json';
+
+const FEED_ITEM_LIMIT = parseInt(process.env.SYNDICATION_ITEM_LIMIT || '50');
+const CACHE_CONTROL = 'public, max-age=300, s-maxage=900, stale-while-revalidate=3600';
+
+const FEED_PATHS: Record<SyndicationFormat, string> = {
+  rss: '/feed.xml',
+  atom: '/feed.atom',
+  json: '/feed.json',
+};
+
+const CONTENT_TYPES: Record<SyndicationFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8',
+};
+
+interface FeedImage {
+  url: string;
+  type: string;
+  width: number;
+  height: number;
+}
+
+interface FeedEntry {
+  id: string;
+  title: string;
+  url: string;
+  excerpt: string;
+  contentHtml: string;
+  contentText: string;
+  image: FeedImage | null;
+  category: string;
+  author: string;
+  sourceName: string | null;
+  sourceUrl: string | null;
+  // Feed of the NewsSource the story was ingested from, for RSS <source>
+  sourceFeedUrl: string | null;
+  publishedAt: Date;
+  updatedAt: Date;
+}
+
+interface SyndicationFeed {
+  title: string;
+  description: string;
+  // Page the feed mirrors
+  homeUrl: string;
+  // This feed, including its query
+  selfUrl: string;
+  query: string;
+  updatedAt: Date;
+  entries: FeedEntry[];
+}
+
+function paragraphsToHtml(text: string): string {
+  return text
+    .split('\n\n')
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .map(paragraph => `<p>${escapeXml(paragraph)}</p>`)
+    .join('\n');
+}
+
+function imageFor(asset: Parameters<typeof responsiveImage>[0] | null): FeedImage | null {
+  if (!asset) return null;
+  // The largest variant, which is what image.src points at
+  const width = asset.variantWidths[asset.variantWidths.length - 1];
+  const height = Math.round((asset.height * width) / asset.width);
+  return { url: resolveSiteUrl(responsiveImage(asset).src), type: 'image/webp', width, height };
+}
+
+/**
+ * Published articles for a feed, newest first
+ * Returns null when the category or country does not exist
+ */
+async function loadFeed(format: SyndicationFormat, categorySlug: string | null, countryParam: string | null): Promise<SyndicationFeed | null> {
+  const where: { published: true; categoryId?: string; country?: string } = { published: true };
+  const titleParts = [SITE_NAME];
+  const params = new URLSearchParams();
+  let homePath = '/';
+
+  if (categorySlug) {
+    const category = await prisma.category.findUnique({ where: { slug: categorySlug } });
+    if (!category) return null;
+    where.categoryId = category.id;
+    titleParts.push(category.name);
+    params.set('category', category.slug);
+    homePath = `/category/${category.slug}`;
+  }
+
+  if (countryParam) {
+    const country = MULTI_TENANT_FEEDS[countryParam.toUpperCase() as CountryCode];
+    if (!country) return null;
+    where.country = country.code;
+    titleParts.push(country.name);
+    params.set('country', country.code);
+    homePath = `${homePath}?country=${country.code}`;
+  }
+
+  const articles = await prisma.article.findMany({
+    where,
+    include: {
+      category: { select: { name: true } },
+      author: { select: { name: true } },
+      imageAsset: { select: RESPONSIVE_IMAGE_SELECT },
+    },
+    // Postgres sorts NULLs first when descending; rows without a publishedAt must not take the top slots
+    orderBy: [{ publishedAt: { sort: 'desc', nulls: 'last' } }, { createdAt: 'desc' }],
+    take: FEED_ITEM_LIMIT,
+  });
+
+  const sourceIds = Array.from(new Set(articles.map(article => article.sourceId).filter((id): id is string => !!id)));
+  const sources = sourceIds.length > 0
+    ? await prisma.newsSource.findMany({ where: { id: { in: sourceIds } }, select: { id: true, url: true } })
+    : [];
+  const sourceFeeds = new Map(sources.map(source => [source.id, source.url]));
+
+  const entries = articles.map((article): FeedEntry => {
+    const url = absoluteUrl(`/article/${article.slug}`);
+    const excerpt = article.excerpt || `${article.content.substring(0, 200)}...`;
+    const attribution = article.sourceName
+      ? `<p><em>Source: ${article.sourceUrl
+        ? `<a href="${escapeXml(article.sourceUrl)}">${escapeXml(article.sourceName)}</a>`
+        : escapeXml(article.sourceName)}</em></p>`
+      : '';
+
+    return {
+      id: url,
+      title: article.title,
+      url,
+      excerpt,
+      contentHtml: `${paragraphsToHtml(article.content)}${attribution ? `\n${attribution}` : ''}`,
+      contentText: article.content,
+      image: imageFor(article.imageAsset),
+      category: article.category.name,
+      author: article.author.name || 'Editorial Team',
+      sourceName: article.sourceName,
+      sourceUrl: article.sourceUrl,
+      sourceFeedUrl: article.sourceId ? sourceFeeds.get(article.sourceId) || null : null,
+      publishedAt: article.publishedAt || article.createdAt,
+      updatedAt: article.updatedAt,
+    };
+  });
+
+  const query = params.toString() ? `?${params.toString()}` : '';
+  const updatedAt = entries.reduce((latest, entry) => (entry.updatedAt > latest ? entry.updatedAt : latest), new Date(0));
+
+  return {
+    title: titleParts.join(' - '),
+    description: `Latest ${[...titleParts.slice(1), 'stories'].join(' ')} from ${SITE_NAME}`,
+    homeUrl: absoluteUrl(homePath),
+    selfUrl: absoluteUrl(`${FEED_PATHS[format]}${query}`),
+    query,
+    updatedAt: entries.length > 0 ? updatedAt : new Date(),
+    entries,
+  };
+}
+
+function buildRss(feed: SyndicationFeed): string {
+  const items = feed.entries.map(entry => [
+    '    <item>',
+    `      <title>${escapeXml(entry.title)}</title>`,
+    `      <link>${escapeXml(entry.url)}</link>`,
+    `      <guid isPermaLink="true">${escapeXml(entry.id)}</guid>`,
+    `      <pubDate>${entry.publishedAt.toUTCString()}</pubDate>`,
+    `      <dc:creator>${escapeXml(entry.author)}</dc:creator>`,
+    `      <category>${escapeXml(entry.category)}</category>`,
+    `      <description>${escapeXml(entry.excerpt)}</description>`,
+    `      <content:encoded>${escapeXml(entry.contentHtml)}</content:encoded>`,
+    ...(entry.image ? [
+      // Length is required by RSS but unknown for resized variants; 0 is the accepted placeholder
+      `      <enclosure url="${escapeXml(entry.image.url)}" type="${entry.image.type}" length="0" />`,
+      `      <media:content url="${escapeXml(entry.image.url)}" medium="image" type="${entry.image.type}" width="${entry.image.width}" height="${entry.image.height}" />`,
+    ] : []),
+    ...(entry.sourceName && entry.sourceFeedUrl
+      ? [`      <source url="${escapeXml(entry.sourceFeedUrl)}">${escapeXml(entry.sourceName)}</source>`]
+      : []),
+    '    </item>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:media="http://search.yahoo.com/mrss/">',
+    '  <channel>',
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <link>${escapeXml(feed.homeUrl)}</link>`,
+    `    <description>${escapeXml(feed.description)}</description>`,
+    '    <language>en</language>',
+    `    <lastBuildDate>${feed.updatedAt.toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${escapeXml(feed.selfUrl)}" rel="self" type="application/rss+xml" />`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+}
+
+function buildAtom(feed: SyndicationFeed): string {
+  const entries = feed.entries.map(entry => [
+    '  <entry>',
+    `    <title>${escapeXml(entry.title)}</title>`,
+    `    <link rel="alternate" type="text/html" href="${escapeXml(entry.url)}" />`,
+    `    <id>${escapeXml(entry.id)}</id>`,
+    `    <published>${entry.publishedAt.toISOString()}</published>`,
+    `    <updated>${entry.updatedAt.toISOString()}</updated>`,
+    `    <author><name>${escapeXml(entry.author)}</name></author>`,
+    `    <category term="${escapeXml(entry.category)}" />`,
+    `    <summary>${escapeXml(entry.excerpt)}</summary>`,
+    `    <content type="html">${escapeXml(entry.contentHtml)}</content>`,
+    ...(entry.image ? [`    <link rel="enclosure" type="${entry.image.type}" href="${escapeXml(entry.image.url)}" />`] : []),
+    ...(entry.sourceUrl
+      ? [`    <link rel="via" type="text/html" href="${escapeXml(entry.sourceUrl)}"${entry.sourceName ? ` title="${escapeXml(entry.sourceName)}"` : ''} />`]
+      : []),
+    '  </entry>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en">',
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <subtitle>${escapeXml(feed.description)}</subtitle>`,
+    `  <id>${escapeXml(feed.selfUrl)}</id>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(feed.selfUrl)}" />`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(feed.homeUrl)}" />`,
+    `  <updated>${feed.updatedAt.toISOString()}</updated>`,
+    `  <generator uri="${escapeXml(SITE_URL)}">${escapeXml(SITE_NAME)}</generator>`,
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n');
+}
+
+function buildJsonFeed(feed: SyndicationFeed): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    description: feed.description,
+    home_page_url: feed.homeUrl,
+    feed_url: feed.selfUrl,
+    language: 'en',
+    items: feed.entries.map(entry => ({
+      id: entry.id,
+      url: entry.url,
+      external_url: entry.sourceUrl || undefined,
+      title: entry.title,
+      summary: entry.excerpt,
+      content_html: entry.contentHtml,
+      content_text: entry.contentText,
+      image: entry.image?.url,
+      date_published: entry.publishedAt.toISOString(),
+      date_modified: entry.updatedAt.toISOString(),
+      authors: [{ name: entry.author }],
+      tags: [entry.category],
+      attachments: entry.image ? [{ url: entry.image.url, mime_type: entry.image.type }] : undefined,
+      // Custom extension, see https://www.jsonfeed.org/version/1.1/#extensions-a-name-extensions-a
+      _source: entry.sourceName ? { name: entry.sourceName, url: entry.sourceUrl } : undefined,
+    })),
+  }, null, 2);
+}
+
+const BUILDERS: Record<SyndicationFormat, (feed: SyndicationFeed) => string> = {
+  rss: buildRss,
+  atom: buildAtom,
+  json: buildJsonFeed,
+};
+
+/**
+ * Route handler body for /feed.xml, /feed.atom and /feed.json
+ */
+export async function handleFeedRequest(request: NextRequest, format: SyndicationFormat): Promise<NextResponse> {
+  try {
+    const { searchParams } = request.nextUrl;
+    const feed = await loadFeed(format, searchParams.get('category'), searchParams.get('country'));
+    if (!feed) {
+      return new NextResponse('Feed not found', { status: 404 });
+    }
+
+    const newest = feed.entries[0]?.id || '';
+    const etag = `W/"${createHash('sha1').update(`${format}|${feed.query}|${feed.updatedAt.toISOString()}|${newest}|${feed.entries.length}`).digest('hex').slice(0, 20)}"`;
+    const headers = {
+      'Content-Type': CONTENT_TYPES[format],
+      'Cache-Control': CACHE_CONTROL,
+      ETag: etag,
+      'Last-Modified': feed.updatedAt.toUTCString(),
+    };
+
+    const ifModifiedSince = request.headers.get('if-modified-since');
+    const notModified = request.headers.get('if-none-match')
+      ? request.headers.get('if-none-match') === etag
+      : !!ifModifiedSince && Math.floor(feed.updatedAt.getTime() / 1000) <= Math.floor(new Date(ifModifiedSince).getTime() / 1000);
+    if (notModified) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+
+    return new NextResponse(BUILDERS[format](feed), { headers });
+  } catch (error) {
+    console.error('SYNDICATION_FEED_ERROR:', error);
+    return new NextResponse('Internal Server Error', { status: 500 });
+  }
+}
@@ -0,0 +1,17 @@
+// Control characters, U+FFFE, U+FFFF and unpaired surrogates are not allowed anywhere
+// in an XML 1.0 document, even escaped; feed text copied from publishers occasionally
+// contains them. With the u flag the surrogate range only matches unpaired halves.
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF\uD800-\uDFFF]/gu;
+
+/**
+ * Escape text for XML element content and attribute values, dropping characters XML cannot hold
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { checkFactPreservation } from '@/lib/factCheck';
+
+/**
+ * Regression check for the fact-preservation check on real rewrites
+ * A faithful rewrite must pass; one that changes a figure or invents a name must not
+ * Run with: npm run check:fact-check
+ */
+
+const original = {
+  title: 'RBI keeps repo rate unchanged at 6.5 per cent for eighth straight time',
+  content: `The Reserve Bank of India on Friday kept the benchmark repo rate unchanged at 6.5 per cent for the eighth consecutive policy meeting, as it sought to bring inflation down to its 4 per cent target.
+
+The six-member Monetary Policy Committee voted 4-2 to hold the rate, Governor Shaktikanta Das said in Mumbai. Two external members, Jayanth Varma and Ashima Goyal, voted for a 25 basis point cut.
+
+The central bank retained its GDP growth forecast for 2024-25 at 7.2 per cent and its retail inflation projection at 4.5 per cent. "We remain focused on aligning inflation to the target on a durable basis," Das said.
+
+Consumer price inflation eased to 5.08 per cent in June from 4.80 per cent in May, largely on higher food prices.`,
+};
+
+const faithfulRewrite = {
+  title: 'RBI Holds Repo Rate at 6.5% for the Eighth Meeting in a Row',
+  excerpt: 'The Reserve Bank of India left its key lending rate at 6.5% as it waits for inflation to settle near its 4% target.',
+  content: `The Reserve Bank of India left the repo rate at 6.5% on Friday, the eighth policy meeting in a row without a change, as the central bank keeps its focus on bringing inflation down to 4%.
+
+Speaking in Mumbai after the meeting, Governor Shaktikanta Das said the six-member Monetary Policy Committee had voted 4-2 to hold the rate. Two external members, Jayanth Varma and Ashima Goyal, backed a cut of 25 basis points.
+
+Economists had widely expected the pause. Retail inflation rose to 5.08% in June from 4.80% in May, driven mostly by food prices, which keeps the case for an early cut weak.
+
+Growth is not the worry. The central bank kept its GDP forecast for 2024-25 at 7.2% and its retail inflation projection at 4.5%.
+
+"We remain focused on aligning inflation to the target on a durable basis," Das said.
+
+Markets will now look to the next policy review for any sign that the committee is ready to move.`,
+};
+
+const faithful = checkFactPreservation(original, faithfulRewrite);
+assert.equal(faithful.passed, true, `Faithful rewrite failed the check: ${JSON.stringify({ missing: faithful.missing, invented: faithful.invented })}`);
+
+const changedFigure = checkFactPreservation(original, {
+  ...faithfulRewrite,
+  content: faithfulRewrite.content.replace('7.2%', '7.5%'),
+});
+assert.equal(changedFigure.passed, false, 'A changed GDP forecast passed the check');
+assert.ok(changedFigure.invented.numbers.includes('7.5%'));
+
+const inventedNames = checkFactPreservation(original, {
+  ...faithfulRewrite,
+  content: `${faithfulRewrite.content}\n\nFinance Minister Nirmala Sitharaman welcomed the decision, and Deputy Governor Michael Patra and SBI chairman Dinesh Khara echoed her, as did HDFC Bank chief Sashidhar Jagdishan and Kotak Mahindra Bank founder Uday Kotak.`,
+});
+assert.equal(inventedNames.passed, false, 'A rewrite quoting people absent from the source passed the check');
+
+console.log('Fact preservation checks passed');
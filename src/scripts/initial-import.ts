@@ -57,6 +57,7 @@ async function main() {
         id: s.id,
         name: s.name,
         category: s.category,
+        country: s.country,
       })),
       systemAuthor.id,
       5 // 5 articles per source for initial import
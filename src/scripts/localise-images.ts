@@ -0,0 +1,29 @@
+import { prisma } from '@/lib/prisma';
+import { articleImageData, localiseImage } from '@/lib/imagePipeline';
+
+/**
+ * Move hotlinked article images into image storage
+ * Images that can no longer be fetched or fail validation are removed from their article
+ * Run with: npm run images:backfill
+ */
+async function main() {
+  const articles = await prisma.article.findMany({
+    where: { imageAssetId: null, image: { not: null } },
+    select: { id: true, image: true },
+    orderBy: { createdAt: 'desc' },
+  });
+  console.log(`Localising images for ${articles.length} articles...`);
+
+  let stored = 0;
+  for (const article of articles) {
+    const asset = await localiseImage(article.image);
+    await prisma.article.update({ where: { id: article.id }, data: articleImageData(asset) });
+    if (asset) stored++;
+  }
+
+  console.log(`Stored ${stored} images, dropped ${articles.length - stored}`);
+}
+
+main()
+  .catch(e => console.error(e))
+  .finally(async () => await prisma.$disconnect());
@@ -51,7 +51,8 @@ async function main() {
         source.name,
         source.category,
         systemAuthor.id,
-        2 // Just 2 articles per source for testing
+        2, // Just 2 articles per source for testing
+        source.country
       );
 
       console.log(`✅ Stored: ${result.stored}, Skipped: ${result.skipped}`);
@@ -0,0 +1,11 @@
+/**
+ * Stored image variants in the form <img> needs them
+ */
+export interface ResponsiveImage {
+  src: string;
+  srcSet: string;
+  // Of the original, so the browser can reserve the right aspect ratio
+  width: number;
+  height: number;
+  blurDataUrl: string;
+}
@@ -1,3 +1,5 @@
+import type { ResponsiveImage } from '@/types/image';
+
 export interface RSSFeedItem {
   title: string;
   link: string;
@@ -28,6 +30,7 @@ export interface NewsArticle {
   pubDate: string;
   description: string;
   image?: string;
+  imageSet?: ResponsiveImage;
   category?: string;
   author?: string;
   readTime?: string;